@@ -0,0 +1,184 @@
+// Rich outputs of code executions (plots, images, tables)
+// Every code execution (not shell commands) gets its own artifacts directory, exposed as SANDBOX_ARTIFACTS_DIR
+// Files written there are returned with the execution result, and matplotlib figures are saved there automatically
+// by a custom backend
+// Directories are kept for ARTIFACTS_RETENTION so their /fs links can be downloaded, then pruned
+import crypto from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+
+import { log } from 'apify';
+import mime from 'mime-types';
+
+import { ARTIFACTS_DIR, ARTIFACTS_MAX_DIRS, ARTIFACTS_PYTHON_DIR, ARTIFACTS_RETENTION, SANDBOX_DIR } from './consts.js';
+import type { Artifact } from './types.js';
+import { chownToSandboxUser } from './user.js';
+
+/**
+ * Name of the matplotlib backend module in ARTIFACTS_PYTHON_DIR
+ */
+const MATPLOTLIB_BACKEND_MODULE = 'sandbox_artifacts_backend';
+
+/**
+ * Matplotlib backend
+ * Renders with Agg and saves every open figure to the artifacts directory on plt.show() and when the
+ * interpreter exits, so figures are captured even if the code never calls plt.show()
+ */
+const MATPLOTLIB_BACKEND = String.raw`
+import atexit, os
+
+from matplotlib import _pylab_helpers
+from matplotlib.backend_bases import _Backend
+from matplotlib.backends.backend_agg import _BackendAgg
+
+_saved = [0]
+
+def _save_figures():
+    directory = os.environ.get('SANDBOX_ARTIFACTS_DIR')
+    managers = _pylab_helpers.Gcf.get_all_fig_managers()
+    if directory and os.path.isdir(directory):
+        for manager in managers:
+            _saved[0] += 1
+            manager.canvas.figure.savefig(os.path.join(directory, 'figure-%d.png' % _saved[0]), bbox_inches='tight')
+    _pylab_helpers.Gcf.destroy_all()
+
+@_Backend.export
+class _BackendSandboxArtifacts(_BackendAgg):
+    @staticmethod
+    def show(*args, **kwargs):
+        _save_figures()
+
+atexit.register(_save_figures)
+`;
+
+let backendWritten = false;
+
+// Directories of running executions, never pruned
+const activeDirs = new Set<string>();
+
+/**
+ * Write the matplotlib backend module (once per Actor run, /tmp is not migrated)
+ */
+const writeMatplotlibBackend = async (): Promise<void> => {
+    if (backendWritten) return;
+    await fs.mkdir(ARTIFACTS_PYTHON_DIR, { recursive: true });
+    await fs.writeFile(path.join(ARTIFACTS_PYTHON_DIR, `${MATPLOTLIB_BACKEND_MODULE}.py`), MATPLOTLIB_BACKEND);
+    backendWritten = true;
+};
+
+/**
+ * Remove artifact directories older than ARTIFACTS_RETENTION and all but the ARTIFACTS_MAX_DIRS most recent ones
+ */
+const pruneArtifactsDirs = async (): Promise<void> => {
+    let names: string[];
+    try {
+        names = await fs.readdir(ARTIFACTS_DIR);
+    } catch {
+        return;
+    }
+    const dirs = await Promise.all(
+        names.map(async (name) => {
+            const dir = path.join(ARTIFACTS_DIR, name);
+            const stats = await fs.stat(dir).catch(() => undefined);
+            return { dir, mtimeMs: stats?.mtimeMs ?? 0 };
+        }),
+    );
+    dirs.sort((a, b) => b.mtimeMs - a.mtimeMs);
+    const expired = dirs.filter(
+        ({ dir, mtimeMs }, index) =>
+            !activeDirs.has(dir) && (index >= ARTIFACTS_MAX_DIRS || Date.now() - mtimeMs > ARTIFACTS_RETENTION),
+    );
+    for (const { dir } of expired) {
+        await fs.rm(dir, { recursive: true, force: true }).catch((error: Error) => {
+            log.debug('Failed to remove artifacts directory', { dir, error: error.message });
+        });
+    }
+    if (expired.length > 0) log.debug('Pruned artifact directories', { count: expired.length });
+};
+
+/**
+ * Create an empty artifacts directory for a single execution
+ * Expired directories of earlier executions are removed first
+ * @returns Absolute path of the directory, or undefined if it could not be created
+ */
+export const createArtifactsDir = async (): Promise<string | undefined> => {
+    await pruneArtifactsDirs();
+    const dir = path.join(ARTIFACTS_DIR, crypto.randomBytes(6).toString('hex'));
+    try {
+        const createdDir = await fs.mkdir(dir, { recursive: true, mode: 0o755 });
+        await chownToSandboxUser(dir, createdDir);
+        activeDirs.add(dir);
+    } catch (error) {
+        log.warning('Failed to create artifacts directory', { dir, error: (error as Error).message });
+        return undefined;
+    }
+    try {
+        await writeMatplotlibBackend();
+    } catch (error) {
+        log.warning('Failed to write matplotlib backend, figures will not be captured', {
+            error: (error as Error).message,
+        });
+    }
+    return dir;
+};
+
+/**
+ * Environment variables that point an execution to its artifacts directory
+ * @param pythonPath - PYTHONPATH of the execution environment, kept after the capture modules
+ */
+export const getArtifactsEnvironment = (dir: string, pythonPath?: string): Record<string, string> => ({
+    SANDBOX_ARTIFACTS_DIR: dir,
+    MPLBACKEND: `module://${MATPLOTLIB_BACKEND_MODULE}`,
+    PYTHONPATH: pythonPath ? `${ARTIFACTS_PYTHON_DIR}:${pythonPath}` : ARTIFACTS_PYTHON_DIR,
+});
+
+/**
+ * List all files in a directory recursively
+ */
+const listFilesRecursively = async (dir: string): Promise<string[]> => {
+    const entries = await fs.readdir(dir, { withFileTypes: true });
+    const files = await Promise.all(
+        entries.map(async (entry) => {
+            const entryPath = path.join(dir, entry.name);
+            if (entry.isDirectory()) return listFilesRecursively(entryPath);
+            return entry.isFile() ? [entryPath] : [];
+        }),
+    );
+    return files.flat();
+};
+
+/**
+ * Collect the files an execution wrote to its artifacts directory
+ * The directory is removed if the execution produced no artifacts
+ */
+export const collectArtifacts = async (dir: string): Promise<Artifact[]> => {
+    activeDirs.delete(dir);
+    try {
+        const files = (await listFilesRecursively(dir)).sort();
+        if (files.length === 0) {
+            await fs.rm(dir, { recursive: true, force: true });
+            return [];
+        }
+        // Retention starts when the execution ends
+        const now = new Date();
+        await fs.utimes(dir, now, now);
+
+        const artifacts = await Promise.all(
+            files.map(async (file): Promise<Artifact> => {
+                const stats = await fs.stat(file);
+                return {
+                    name: path.relative(dir, file),
+                    path: file,
+                    url: `/fs/${path.relative(SANDBOX_DIR, file).split(path.sep).map(encodeURIComponent).join('/')}`,
+                    mimeType: mime.lookup(file) || 'application/octet-stream',
+                    size: stats.size,
+                };
+            }),
+        );
+        log.debug('Execution artifacts collected', { dir, count: artifacts.length });
+        return artifacts;
+    } catch (error) {
+        log.warning('Failed to collect execution artifacts', { dir, error: (error as Error).message });
+        return [];
+    }
+};
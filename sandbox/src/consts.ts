@@ -37,6 +37,112 @@ export const PYTHON_BIN_DIR = '/sandbox/py/venv/bin';
  */
 export const INIT_SCRIPT_TIMEOUT = 300000;
 
+/**
+ * Maximum number of output characters retained per background job (older output is dropped)
+ */
+export const JOB_OUTPUT_BUFFER_SIZE = 1024 * 1024;
+
+/**
+ * Maximum number of finished background jobs kept for status and output queries
+ */
+export const MAX_FINISHED_JOBS = 50;
+
+/**
+ * Grace period before a terminated background job is force-killed with SIGKILL
+ */
+export const JOB_KILL_GRACE_PERIOD = 5000;
+
+/**
+ * Maximum number of concurrently running REPL kernels
+ */
+export const MAX_KERNELS = 10;
+
+/**
+ * Time to wait for an interrupted kernel to report back before it is restarted
+ */
+export const KERNEL_INTERRUPT_GRACE_PERIOD = 5000;
+
+/**
+ * Grace period between SIGTERM and SIGKILL when a timed out or aborted execution is terminated
+ */
+export const EXECUTION_KILL_GRACE_PERIOD = 5000;
+
+/**
+ * Default size of interactive PTY sessions (/exec/pty)
+ */
+export const PTY_DEFAULT_COLS = 80;
+export const PTY_DEFAULT_ROWS = 24;
+
+/**
+ * Grace period between SIGHUP and SIGKILL when a PTY session is closed by the client
+ */
+export const PTY_KILL_GRACE_PERIOD = 5000;
+
+/**
+ * Interval at which the process tree of a limited execution is sampled
+ */
+export const RESOURCE_LIMITS_POLL_INTERVAL = 200;
+
+/**
+ * Env file with secrets from the Actor input (/dev/shm is a RAM-backed tmpfs, never persisted)
+ */
+export const SECRETS_ENV_FILE = '/dev/shm/sandbox-secrets.env';
+
+/**
+ * Secret values shorter than this are not redacted, as replacing them would mangle unrelated output
+ */
+export const SECRETS_MIN_REDACTION_LENGTH = 4;
+
+/**
+ * Unprivileged user that runs executions when the runAsSandboxUser input is enabled (created in the Dockerfile)
+ */
+export const SANDBOX_USER = 'sandbox';
+
+/**
+ * Timeout of a runtime version probe (GET /runtimes)
+ */
+export const RUNTIME_VERSION_PROBE_TIMEOUT = 10000;
+
+/**
+ * Maximum number of steps in a single batch execution (/exec with steps)
+ */
+export const MAX_EXECUTION_STEPS = 50;
+
+/**
+ * Directory with per-execution artifact directories (plots, images, tables produced by /exec)
+ */
+export const ARTIFACTS_DIR = '/sandbox/.artifacts';
+
+/**
+ * Directory with the Python modules that capture matplotlib figures as artifacts (added to PYTHONPATH)
+ */
+export const ARTIFACTS_PYTHON_DIR = '/tmp/sandbox-artifacts-python';
+
+/**
+ * Largest image artifact returned inline as MCP image content (larger images are only linked)
+ */
+export const ARTIFACTS_MAX_INLINE_IMAGE_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Artifact directories are removed this long after their execution (in milliseconds), their /fs links stop working
+ */
+export const ARTIFACTS_RETENTION = 60 * 60 * 1000;
+
+/**
+ * Number of most recent artifact directories kept regardless of their age
+ */
+export const ARTIFACTS_MAX_DIRS = 100;
+
+/**
+ * Local port of the egress proxy that enforces the network egress policy
+ */
+export const EGRESS_PROXY_PORT = 3128;
+
+/**
+ * Maximum number of denied connection attempts kept for GET /network/log (older entries are dropped)
+ */
+export const MAX_NETWORK_LOG_ENTRIES = 1000;
+
 /**
  * Migration persistence constants
  */
@@ -52,12 +158,52 @@ export const STARTUP_MARKER_PATH = '/tmp/.actor_startup_marker';
 export const KV_MIGRATION_MANIFEST = 'migration-manifest';
 export const KV_MIGRATION_TARBALL = 'migration-tarball';
 
+/**
+ * Maximum number of file content hashes cached for /fs ETags (keyed by path, invalidated by size and ctime)
+ */
+export const MAX_FILE_HASH_CACHE_ENTRIES = 1000;
+
+/**
+ * Larger files get a weak /fs ETag from their size and modification time instead of a hash of their content
+ */
+export const FILE_ETAG_MAX_HASH_BYTES = 16 * 1024 * 1024;
+
+/**
+ * Maximum number of entries collected by a directory listing before it stops and reports truncated
+ */
+export const MAX_LISTED_ENTRIES = 50000;
+
+/**
+ * Maximum number of matches returned by a content search (GET /search)
+ */
+export const MAX_SEARCH_RESULTS = 5000;
+
+/**
+ * Files larger than this are skipped by content searches
+ */
+export const SEARCH_MAX_FILE_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Maximum number of context lines before and after a search match
+ */
+export const SEARCH_MAX_CONTEXT_LINES = 10;
+
+/**
+ * Content searches stop after this many milliseconds, so a slow regular expression cannot run forever
+ */
+export const SEARCH_TIMEOUT = 30000;
+
 /**
  * Baseline package files (created at Docker build time)
  */
 export const BASELINE_PIP_FREEZE = '/app/.baseline-pip-freeze.txt';
 export const BASELINE_DPKG = '/app/.baseline-dpkg.txt';
 
+/**
+ * Staging directory for copies of changed files with secrets redacted
+ */
+export const MIGRATION_REDACTED_DIR = '/tmp/migration-redacted';
+
 /**
  * Paths to exclude from migration backup
  */
@@ -72,4 +218,5 @@ export const MIGRATION_EXCLUDED_PATHS = [
     '/var/lib/dpkg', // Exclude dpkg database - we reinstall packages from apt history instead
     '/sandbox/js-ts/node_modules',
     '/sandbox/py/venv',
+    '/sandbox/.artifacts', // Execution artifacts are short-lived download links
 ];
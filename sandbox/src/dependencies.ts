@@ -0,0 +1,216 @@
+// Inline dependencies: code run with executeCode can declare the packages it needs in a metadata header, which are
+// installed into the shared venv / node_modules before it runs. Python uses PEP 723 inline script metadata,
+// JavaScript and TypeScript the same block written with // comments:
+//   # /// script                          // /// script
+//   # dependencies = ["rich>=13"]         // dependencies = ["zod@^3", "chalk"]
+//   # ///                                 // ///
+// Installs run as the execution user with the execution environment, so the egress policy applies to them, and are
+// checked against the command policy as the equivalent pip/npm install command
+import { execFile } from 'node:child_process';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { promisify } from 'node:util';
+
+import { log } from 'apify';
+
+import type { LibraryInstallResult } from './environment.js';
+import {
+    EXECUTION_DIRS,
+    getExecutionEnvironment,
+    installNodeLibraries,
+    installPythonLibraries,
+} from './environment.js';
+import { checkCommandPolicy } from './policy.js';
+import { redactSecrets } from './secrets.js';
+import type { DependencyInstallReport } from './types.js';
+import { getUserSpawnOptions } from './user.js';
+
+const execFileAsync = promisify(execFile);
+
+type PackageManager = 'pip' | 'npm';
+
+export interface InlineInstallOptions {
+    /**
+     * Timeout in milliseconds for the whole install, including the wait for earlier installs
+     */
+    timeout?: number;
+    abortSignal?: AbortSignal;
+}
+
+/**
+ * Package manager used for the inline dependencies of each built-in runtime
+ */
+const RUNTIME_PACKAGE_MANAGERS: Record<string, PackageManager> = { py: 'pip', js: 'npm', ts: 'npm' };
+
+/**
+ * Comment prefix of the metadata block lines
+ */
+const COMMENT_PREFIXES: Record<PackageManager, string> = { pip: '#', npm: '//' };
+
+/**
+ * npm package name with an optional version range or tag, e.g. "zod", "zod@^3", "@types/node@20"
+ */
+const NPM_PACKAGE_SPEC = /^((?:@[a-z0-9][\w.-]*\/)?[a-z0-9][\w.-]*)(?:@(\S+))?$/i;
+
+/**
+ * Prints the requirements from argv that the venv does not satisfy, one per line
+ * Requirements with URLs or that cannot be checked are reported as missing and left to pip
+ */
+const PYTHON_MISSING_REQUIREMENTS_SCRIPT = String.raw`
+import sys
+from importlib import metadata
+from pip._vendor.packaging.requirements import Requirement
+
+for line in sys.argv[1:]:
+    try:
+        requirement = Requirement(line)
+        if requirement.marker is not None and not requirement.marker.evaluate():
+            continue
+        if not requirement.url and requirement.specifier.contains(metadata.version(requirement.name), prereleases=True):
+            continue
+    except Exception:
+        pass
+    print(line)
+`;
+
+const INVALID_DEPENDENCIES_ERROR = 'Invalid script metadata: dependencies must be an array of strings';
+
+// Installs share the venv and node_modules, so they run one at a time
+let installQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Read the dependencies array of the script metadata block
+ * @returns Dependency strings (empty if the code has no metadata), or an error message
+ */
+const parseInlineDependencies = (code: string, prefix: string): string[] | string => {
+    const block = new RegExp(`^${prefix} /// script$\\n((?:^${prefix}(?: .*)?$\\n)*?)^${prefix} ///$`, 'm').exec(
+        code.replace(/\r\n/g, '\n'),
+    );
+    if (!block) return [];
+
+    // Block content is TOML; only the dependencies array of strings is used
+    const toml = block[1]
+        .split('\n')
+        .map((line) => line.slice(prefix.length).replace(/^ /, ''))
+        .join('\n');
+    const key = /^dependencies\s*=\s*/m.exec(toml);
+    if (!key) return [];
+    if (toml[key.index + key[0].length] !== '[') return INVALID_DEPENDENCIES_ERROR;
+
+    const dependencies: string[] = [];
+    const item = /\s*(?:#.*\n\s*)*(?:"([^"\n]*)"|'([^'\n]*)'|(\]))\s*,?/y;
+    item.lastIndex = key.index + key[0].length + 1;
+    for (;;) {
+        const match = item.exec(toml);
+        if (!match) return INVALID_DEPENDENCIES_ERROR;
+        if (match[3]) return dependencies;
+        dependencies.push((match[1] ?? match[2]).trim());
+    }
+};
+
+/**
+ * Requirements not satisfied by the packages in the venv
+ * The venv's Python belongs to the execution user, so the check runs as that user like the install
+ */
+const findMissingPythonRequirements = async (requirements: string[]): Promise<string[]> => {
+    try {
+        const { stdout } = await execFileAsync(
+            path.join(EXECUTION_DIRS.PYTHON_BIN, 'python'),
+            ['-c', PYTHON_MISSING_REQUIREMENTS_SCRIPT, ...requirements],
+            { env: getExecutionEnvironment(), timeout: 30000, ...getUserSpawnOptions() },
+        );
+        return stdout.split('\n').filter((line) => line.length > 0);
+    } catch (error) {
+        log.debug('Failed to check installed Python requirements', { error: (error as Error).message });
+        return requirements;
+    }
+};
+
+/**
+ * Packages not installed in node_modules
+ * An installed package satisfies the spec if no version is requested or the version matches exactly; other ranges
+ * are left to npm, which keeps an installed version that satisfies them
+ */
+const findMissingNodePackages = async (packages: Record<string, string>): Promise<Record<string, string>> => {
+    const missing: Record<string, string> = {};
+    for (const [name, version] of Object.entries(packages)) {
+        try {
+            const manifest = JSON.parse(
+                await fs.readFile(path.join(EXECUTION_DIRS.NODE_MODULES, name, 'package.json'), 'utf8'),
+            ) as { version?: string };
+            if (version === 'latest' || version === '*' || version === manifest.version) continue;
+        } catch {
+            // Not installed
+        }
+        missing[name] = version;
+    }
+    return missing;
+};
+
+/**
+ * Install the packages that code declares in its inline script metadata and that are not installed yet
+ * @param code - Source code of the execution
+ * @param runtimeName - Name of the runtime; only py, js and ts support inline dependencies
+ * @param options - Timeout and abort signal of the execution; packages not installed when they fire are failed
+ * @returns Install report, undefined if the code declares no dependencies, or an error message for invalid metadata
+ *          or an install denied by the command policy
+ */
+export const installInlineDependencies = async (
+    code: string,
+    runtimeName: string,
+    options: InlineInstallOptions = {},
+): Promise<DependencyInstallReport | string | undefined> => {
+    const packageManager = RUNTIME_PACKAGE_MANAGERS[runtimeName];
+    if (!packageManager) return undefined;
+
+    const dependencies = parseInlineDependencies(code, COMMENT_PREFIXES[packageManager]);
+    if (typeof dependencies === 'string') return dependencies;
+    if (dependencies.length === 0) return undefined;
+
+    // Validate before anything is installed
+    const packages: Record<string, string> = {};
+    for (const dependency of dependencies) {
+        if (packageManager === 'pip') {
+            if (!dependency || dependency.startsWith('-')) return `Invalid Python requirement: ${dependency}`;
+        } else {
+            const match = NPM_PACKAGE_SPEC.exec(dependency);
+            if (!match) return `Invalid npm package: ${dependency}`;
+            packages[match[1]] = match[2] ?? 'latest';
+        }
+    }
+    const policyError = checkCommandPolicy({ command: packageManager, args: ['install', ...dependencies] });
+    if (policyError) return policyError;
+
+    const timeoutSignal = options.timeout ? AbortSignal.timeout(options.timeout) : undefined;
+    const signals = [options.abortSignal, timeoutSignal].filter((signal): signal is AbortSignal => !!signal);
+    const startedAt = Date.now();
+
+    const install = async (): Promise<DependencyInstallReport> => {
+        const installOptions = {
+            env: getExecutionEnvironment(),
+            ...getUserSpawnOptions(),
+            signal: signals.length > 0 ? AbortSignal.any(signals) : undefined,
+        };
+        let result: LibraryInstallResult | undefined;
+        if (packageManager === 'pip') {
+            const missing = await findMissingPythonRequirements(dependencies);
+            if (missing.length > 0) result = await installPythonLibraries(missing.join('\n'), installOptions);
+        } else {
+            const missing = await findMissingNodePackages(packages);
+            if (Object.keys(missing).length > 0) result = await installNodeLibraries(missing, installOptions);
+        }
+        // Installer output and errors can echo index URLs with credentials or tokens from the environment
+        return {
+            installed: result?.installed ?? [],
+            failed: (result?.failed ?? []).map(({ library, error }) => ({ library, error: redactSecrets(error) })),
+            output: redactSecrets(result?.output ?? ''),
+            timedOut: !!timeoutSignal?.aborted,
+            durationMs: Date.now() - startedAt,
+        };
+    };
+
+    log.debug('Installing inline dependencies', { runtime: runtimeName, dependencies });
+    const report = installQueue.then(install);
+    installQueue = report.catch(() => undefined);
+    return report;
+};
@@ -0,0 +1,383 @@
+// Static checks: tsc for TypeScript and JavaScript, ruff and pyright for Python
+// Each tool runs in the execution environment with machine-readable output, and its findings are returned as
+// diagnostics in one format instead of raw text output
+import crypto from 'node:crypto';
+import { existsSync, promises as fs, statSync } from 'node:fs';
+import path from 'node:path';
+
+import { log } from 'apify';
+
+import { SANDBOX_DIR } from './consts.js';
+import { validateEnvironmentOverrides } from './environment.js';
+import { runCommand } from './operations.js';
+import type { Runtime } from './runtimes.js';
+import { resolveRuntime, resolveRuntimeByExtension, shellQuote } from './runtimes.js';
+import type { ExecutionOptions } from './types.js';
+
+export type CheckTool = 'tsc' | 'ruff' | 'pyright';
+
+export const CHECK_TOOLS: CheckTool[] = ['tsc', 'ruff', 'pyright'];
+
+type CheckLanguage = 'ts' | 'js' | 'py';
+
+/**
+ * Tools available for each language; all of them run unless the request selects some
+ */
+const LANGUAGE_TOOLS: Record<CheckLanguage, CheckTool[]> = { ts: ['tsc'], js: ['tsc'], py: ['ruff', 'pyright'] };
+
+/**
+ * How to install a tool missing from the sandbox
+ */
+const INSTALL_HINTS: Record<CheckTool, string> = {
+    tsc: 'npm install -g typescript',
+    ruff: 'pip install ruff',
+    pyright: 'npm install -g pyright',
+};
+
+/**
+ * File name reported for diagnostics in checked code
+ */
+const CODE_FILE_NAME = '<code>';
+
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+export interface Diagnostic {
+    tool: CheckTool;
+    /**
+     * Absolute path, "<code>" for checked code, or null for diagnostics not tied to a file (e.g. tsconfig errors)
+     */
+    file: string | null;
+    /**
+     * 1-based position of the start of the diagnostic (0 if not tied to a position)
+     */
+    line: number;
+    column: number;
+    endLine?: number;
+    endColumn?: number;
+    severity: DiagnosticSeverity;
+    message: string;
+    /**
+     * Rule or error code, e.g. "TS2322", "F401" or "reportMissingImports"
+     */
+    rule: string | null;
+}
+
+/**
+ * Check requested via POST /check or the MCP check_code tool
+ */
+export interface CheckRequest {
+    /**
+     * ts, js or py (or an alias); detected from the paths if omitted
+     */
+    language?: string;
+    /**
+     * Code to check instead of files
+     */
+    code?: string;
+    /**
+     * Files or directories to check; without code and paths, the project in cwd is checked
+     */
+    paths?: string[];
+    /**
+     * Subset of the language's tools to run
+     */
+    tools?: CheckTool[];
+    /**
+     * Defaults to the runtime directory of the language (/sandbox/js-ts or /sandbox/py)
+     */
+    cwd?: string;
+    timeoutSecs?: number;
+    env?: Record<string, string | null>;
+}
+
+export interface CheckToolRun {
+    tool: CheckTool;
+    command: string;
+    exitCode: number;
+    durationMs: number;
+    /**
+     * Set if the tool did not produce diagnostics (e.g. it is not installed or crashed)
+     */
+    error?: string;
+}
+
+export interface CheckResult {
+    language: CheckLanguage;
+    cwd: string;
+    /**
+     * True if every tool ran and no diagnostic is an error
+     */
+    succeeded: boolean;
+    summary: { errors: number; warnings: number; infos: number };
+    diagnostics: Diagnostic[];
+    tools: CheckToolRun[];
+    durationMs: number;
+}
+
+/**
+ * Check with its language, directory and tool commands resolved
+ */
+export interface PreparedCheck {
+    language: CheckLanguage;
+    cwd: string;
+    commands: { tool: CheckTool; command: string }[];
+    /**
+     * Temporary file holding the checked code
+     */
+    codeFile?: string;
+    code?: string;
+}
+
+/**
+ * Validate a check request
+ * @returns Error message, or null if the request is valid
+ */
+export const validateCheckRequest = (request: CheckRequest): string | null => {
+    const { language, code, paths, tools, cwd, timeoutSecs, env } = request;
+    if (language !== undefined && typeof language !== 'string') return 'language must be a string';
+    if (code !== undefined && (typeof code !== 'string' || code.trim().length === 0)) {
+        return 'code must be a non-empty string';
+    }
+    if (paths !== undefined && (!Array.isArray(paths) || paths.some((item) => typeof item !== 'string'))) {
+        return 'paths must be an array of strings';
+    }
+    if (code !== undefined && paths?.length) return 'Pass either code or paths, not both';
+    if (code !== undefined && language === undefined) return 'language is required when checking code';
+    if (tools !== undefined && (!Array.isArray(tools) || tools.some((tool) => !CHECK_TOOLS.includes(tool)))) {
+        return `tools must be an array of: ${CHECK_TOOLS.join(', ')}`;
+    }
+    if (cwd !== undefined && typeof cwd !== 'string') return 'cwd must be a string';
+    if (timeoutSecs !== undefined && (typeof timeoutSecs !== 'number' || !(timeoutSecs > 0))) {
+        return 'timeoutSecs must be a positive number';
+    }
+    return validateEnvironmentOverrides(env);
+};
+
+/**
+ * Runtime of the checked language, given by name or detected from the file extensions
+ */
+const resolveCheckRuntime = (name: string | undefined, paths: string[]): Runtime | undefined => {
+    const runtime = name
+        ? resolveRuntime(name)
+        : paths.map((file) => resolveRuntimeByExtension(path.extname(file))).find(Boolean);
+    return runtime && runtime.name in LANGUAGE_TOOLS ? runtime : undefined;
+};
+
+/**
+ * Shell command that runs a tool on the targets (the project in the working directory if there are none)
+ */
+const buildCheckCommand = (tool: CheckTool, language: CheckLanguage, targets: string[]): string => {
+    const files = targets.map(shellQuote);
+    switch (tool) {
+        case 'tsc':
+            if (files.length === 0) return 'tsc --noEmit --pretty false -p .';
+            // Files passed on the command line ignore tsconfig.json, so use settings suited to modern code
+            return [
+                'tsc --noEmit --pretty false --strict --skipLibCheck --target es2022 --module esnext',
+                '--moduleResolution bundler --esModuleInterop --resolveJsonModule',
+                ...(language === 'js' ? ['--allowJs --checkJs'] : []),
+                ...files,
+            ].join(' ');
+        case 'ruff':
+            return ['ruff check --output-format json --no-cache', ...(files.length > 0 ? files : ['.'])].join(' ');
+        default:
+            return ['pyright --outputjson', ...files].join(' ');
+    }
+};
+
+/**
+ * Resolve the language, working directory and tool commands of a check
+ * @returns Prepared check, or an error message
+ */
+export const prepareCheck = (request: CheckRequest): PreparedCheck | string => {
+    const paths = request.paths ?? [];
+    const runtime = resolveCheckRuntime(request.language, paths);
+    if (!runtime) {
+        return request.language
+            ? `Unsupported language for checks: ${request.language}. Supported: ts, js, py`
+            : 'Cannot detect the language from paths, pass language (ts, js or py)';
+    }
+    const language = runtime.name as CheckLanguage;
+
+    const cwd = path.resolve(SANDBOX_DIR, request.cwd ?? runtime.cwd);
+    if (!cwd.startsWith(SANDBOX_DIR)) return `Access denied: Working directory ${request.cwd} is outside of sandbox`;
+
+    const targets: string[] = [];
+    for (const file of paths) {
+        const target = path.resolve(cwd, file);
+        if (!target.startsWith(SANDBOX_DIR)) return `Access denied: Path ${file} is outside of sandbox`;
+        if (!existsSync(target)) return `Path not found: ${file}`;
+        // tsc only takes files; directories are checked as projects via cwd
+        if (language !== 'py' && statSync(target).isDirectory()) {
+            return `tsc checks files, not directories (${file}); set cwd to a project with tsconfig.json instead`;
+        }
+        targets.push(target);
+    }
+    const projectCheck = targets.length === 0 && request.code === undefined;
+    if (language !== 'py' && projectCheck && !existsSync(path.join(cwd, 'tsconfig.json'))) {
+        return `No tsconfig.json in ${cwd}, pass code or paths`;
+    }
+
+    // Code is checked as a file in the working directory, so imports resolve like in executions
+    let codeFile: string | undefined;
+    if (request.code !== undefined) {
+        codeFile = path.join(cwd, `.check-${crypto.randomBytes(6).toString('hex')}.${language}`);
+        targets.push(codeFile);
+    }
+
+    const tools = LANGUAGE_TOOLS[language].filter((tool) => !request.tools || request.tools.includes(tool));
+    if (tools.length === 0) {
+        return `None of the tools ${request.tools?.join(', ')} checks ${language}. Use: ${LANGUAGE_TOOLS[language].join(', ')}`;
+    }
+
+    return {
+        language,
+        cwd,
+        commands: tools.map((tool) => ({ tool, command: buildCheckCommand(tool, language, targets) })),
+        codeFile,
+        code: request.code,
+    };
+};
+
+/**
+ * Parse tsc output: "file(line,col): error TS2322: message" followed by indented continuation lines
+ */
+const parseTscOutput = (output: string, cwd: string): Diagnostic[] => {
+    const diagnostics: Diagnostic[] = [];
+    for (const line of output.split('\n')) {
+        const match = /^(?:(.+?)\((\d+),(\d+)\): )?(error|warning|message) (TS\d+): (.*)$/.exec(line);
+        if (match) {
+            const [, file, lineNumber, column, category, rule, message] = match;
+            diagnostics.push({
+                tool: 'tsc',
+                file: file ? path.resolve(cwd, file) : null,
+                line: Number(lineNumber ?? 0),
+                column: Number(column ?? 0),
+                severity: category === 'message' ? 'info' : (category as DiagnosticSeverity),
+                message,
+                rule,
+            });
+        } else if (/^\s+\S/.test(line) && diagnostics.length > 0) {
+            diagnostics[diagnostics.length - 1].message += `\n${line.trim()}`;
+        }
+    }
+    return diagnostics;
+};
+
+interface RuffDiagnostic {
+    code: string | null;
+    message: string;
+    filename: string;
+    location: { row: number; column: number };
+    end_location?: { row: number; column: number };
+}
+
+/**
+ * Parse ruff --output-format json; ruff has no severities, so only syntax errors are errors
+ */
+const parseRuffOutput = (output: string): Diagnostic[] =>
+    (JSON.parse(output) as RuffDiagnostic[]).map((item) => ({
+        tool: 'ruff',
+        file: item.filename,
+        line: item.location.row,
+        column: item.location.column,
+        ...(item.end_location && { endLine: item.end_location.row, endColumn: item.end_location.column }),
+        severity: item.code === null || item.code === 'E999' ? 'error' : 'warning',
+        message: item.message,
+        rule: item.code,
+    }));
+
+interface PyrightDiagnostic {
+    file?: string;
+    severity: 'error' | 'warning' | 'information';
+    message: string;
+    rule?: string;
+    range?: { start: { line: number; character: number }; end: { line: number; character: number } };
+}
+
+/**
+ * Parse pyright --outputjson; pyright positions are 0-based
+ */
+const parsePyrightOutput = (output: string): Diagnostic[] =>
+    ((JSON.parse(output) as { generalDiagnostics?: PyrightDiagnostic[] }).generalDiagnostics ?? []).map((item) => ({
+        tool: 'pyright',
+        file: item.file ?? null,
+        line: item.range ? item.range.start.line + 1 : 0,
+        column: item.range ? item.range.start.character + 1 : 0,
+        ...(item.range && { endLine: item.range.end.line + 1, endColumn: item.range.end.character + 1 }),
+        severity: item.severity === 'information' ? 'info' : item.severity,
+        message: item.message,
+        rule: item.rule ?? null,
+    }));
+
+const parseToolOutput = (tool: CheckTool, output: string, cwd: string): Diagnostic[] => {
+    switch (tool) {
+        case 'tsc':
+            return parseTscOutput(output, cwd);
+        case 'ruff':
+            return parseRuffOutput(output);
+        default:
+            return parsePyrightOutput(output);
+    }
+};
+
+/**
+ * Run the tools of a prepared check and collect their diagnostics
+ * The commands must be checked against the command policy first
+ */
+export const runCheck = async (
+    check: PreparedCheck,
+    request: Pick<CheckRequest, 'timeoutSecs' | 'env'> = {},
+    options: Pick<ExecutionOptions, 'abortSignal'> = {},
+): Promise<CheckResult> => {
+    const startedAt = Date.now();
+    if (check.codeFile) await fs.writeFile(check.codeFile, check.code ?? '', 'utf8');
+
+    log.info('Running checks', { language: check.language, cwd: check.cwd, tools: check.commands.length });
+    try {
+        const diagnostics: Diagnostic[] = [];
+        const tools: CheckToolRun[] = [];
+        for (const { tool, command } of check.commands) {
+            const result = await runCommand(command, check.cwd, request.timeoutSecs && request.timeoutSecs * 1000, {
+                ...options,
+                env: { NO_COLOR: '1', ...request.env },
+            });
+
+            const run: CheckToolRun = { tool, command, exitCode: result.exitCode, durationMs: result.durationMs };
+            if (result.exitCode === 127) {
+                run.error = `${tool} is not installed (${INSTALL_HINTS[tool]})`;
+            } else if (result.timedOut) {
+                run.error = `${tool} timed out`;
+            } else {
+                try {
+                    const toolDiagnostics = parseToolOutput(tool, result.stdout, check.cwd);
+                    // tsc reports failures such as an invalid tsconfig.json as diagnostics; anything else is a crash
+                    if (result.exitCode !== 0 && toolDiagnostics.length === 0) throw new Error('no diagnostics');
+                    diagnostics.push(...toolDiagnostics);
+                } catch {
+                    run.error = `${tool} failed: ${(result.stderr || result.stdout).trim().slice(0, 1000)}`;
+                }
+            }
+            tools.push(run);
+        }
+
+        for (const diagnostic of diagnostics) {
+            if (diagnostic.file === check.codeFile) diagnostic.file = CODE_FILE_NAME;
+        }
+        const count = (severity: DiagnosticSeverity) => diagnostics.filter((item) => item.severity === severity).length;
+        const summary = { errors: count('error'), warnings: count('warning'), infos: count('info') };
+
+        log.info('Checks completed', { language: check.language, ...summary });
+        return {
+            language: check.language,
+            cwd: check.cwd,
+            succeeded: summary.errors === 0 && tools.every((run) => !run.error),
+            summary,
+            diagnostics,
+            tools,
+            durationMs: Date.now() - startedAt,
+        };
+    } finally {
+        if (check.codeFile) await fs.rm(check.codeFile, { force: true });
+    }
+};
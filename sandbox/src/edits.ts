@@ -0,0 +1,354 @@
+// Structured file edits for PATCH /fs/* and the MCP edit_file tool: exact search/replace edits or a unified diff are
+// applied to the file content in memory (see editFile in operations.ts for the atomic write), and the change is
+// reported back as a unified diff
+
+/**
+ * Replace oldText with newText; oldText must occur exactly once unless replaceAll is set
+ */
+export interface TextEdit {
+    oldText: string;
+    newText: string;
+    replaceAll?: boolean;
+}
+
+export interface EditRequest {
+    /**
+     * Applied in order, each to the result of the previous one
+     */
+    edits?: TextEdit[];
+    /**
+     * Unified diff of the file (as produced by diff -u or git diff); headers are optional, hunk line counts are ignored
+     */
+    diff?: string;
+    /**
+     * Content hash from read-file or the ETag; the edit is refused if the file changed since
+     */
+    expectedHash?: string;
+    /**
+     * Return the diff without writing the file
+     */
+    dryRun?: boolean;
+}
+
+/**
+ * Result of applying edits in memory: the new content, or an error explaining which edit or hunk failed
+ */
+export type EditOutcome = { content: string } | { error: string };
+
+interface Hunk {
+    header: string;
+    oldStart: number;
+    lines: string[];
+}
+
+/**
+ * Lines of unchanged context around changes in generated diffs
+ */
+const DIFF_CONTEXT_LINES = 3;
+
+/**
+ * Largest number of line pairs compared to find the minimal diff; bigger changes are shown as replaced blocks
+ */
+const MAX_DIFF_COMPARISONS = 4_000_000;
+
+/**
+ * Marks the last line of a file without trailing newline, so it differs from the same line with one
+ */
+const NO_NEWLINE_SUFFIX = '\0no-newline';
+
+const NO_NEWLINE_MARKER = '\\ No newline at end of file';
+
+/**
+ * Validate an edit request
+ * @returns Error message, or null if the request is valid
+ */
+export const validateEditRequest = (request: EditRequest): string | null => {
+    const { edits, diff } = request;
+    if ((edits === undefined) === (diff === undefined)) return 'Provide either edits or diff';
+    if (diff !== undefined && (typeof diff !== 'string' || !diff.trim())) return 'diff must be a non-empty string';
+    if (edits !== undefined) {
+        if (!Array.isArray(edits) || edits.length === 0) return 'edits must be a non-empty array';
+        for (const [index, edit] of edits.entries()) {
+            if (typeof edit?.oldText !== 'string' || !edit.oldText) {
+                return `Edit ${index + 1}: oldText must be a non-empty string`;
+            }
+            if (typeof edit.newText !== 'string') return `Edit ${index + 1}: newText must be a string`;
+            if (edit.replaceAll !== undefined && typeof edit.replaceAll !== 'boolean') {
+                return `Edit ${index + 1}: replaceAll must be a boolean`;
+            }
+        }
+    }
+    if (request.expectedHash !== undefined && typeof request.expectedHash !== 'string') {
+        return 'expectedHash must be a string';
+    }
+    return null;
+};
+
+/**
+ * Apply search/replace edits in order
+ */
+export const applyTextEdits = (content: string, edits: TextEdit[]): EditOutcome => {
+    let result = content;
+    for (const [index, { oldText, newText, replaceAll }] of edits.entries()) {
+        const parts = result.split(oldText);
+        const occurrences = parts.length - 1;
+        if (occurrences === 0) {
+            return { error: `Edit ${index + 1}: oldText was not found in the file (check whitespace and indentation)` };
+        }
+        if (occurrences > 1 && !replaceAll) {
+            return {
+                error: `Edit ${index + 1}: oldText occurs ${occurrences} times; include more surrounding lines to make it unique, or set replaceAll`,
+            };
+        }
+        result = parts.join(newText);
+    }
+    return { content: result };
+};
+
+const stripNoNewline = (line: string): string =>
+    line.endsWith(NO_NEWLINE_SUFFIX) ? line.slice(0, -NO_NEWLINE_SUFFIX.length) : line;
+
+/**
+ * Split content into lines, marking the last line if the content does not end with a newline
+ */
+const splitLines = (content: string): string[] => {
+    if (!content) return [];
+    const lines = content.split('\n');
+    if (lines[lines.length - 1] === '') {
+        lines.pop();
+    } else {
+        lines[lines.length - 1] += NO_NEWLINE_SUFFIX;
+    }
+    return lines;
+};
+
+const joinLines = (lines: string[]): string => {
+    if (lines.length === 0) return '';
+    const last = lines[lines.length - 1];
+    if (last.endsWith(NO_NEWLINE_SUFFIX)) return [...lines.slice(0, -1), stripNoNewline(last)].join('\n');
+    return `${lines.join('\n')}\n`;
+};
+
+/**
+ * Read the hunks of a single-file unified diff
+ * Hunks run until the next hunk or file header; their line counts are not relied on, since hand-written diffs often
+ * get them wrong
+ */
+const parseUnifiedDiff = (diff: string): Hunk[] | string => {
+    const lines = diff.replace(/\r\n/g, '\n').split('\n');
+    while (lines.length > 0 && lines[lines.length - 1] === '') lines.pop();
+
+    const hunks: Hunk[] = [];
+    let files = 0;
+    let hunk: Hunk | undefined;
+    for (const [index, line] of lines.entries()) {
+        const header = /^@@ -(\d+)(?:,\d+)? \+\d+(?:,\d+)? @@/.exec(line);
+        if (header) {
+            hunk = { header: header[0], oldStart: parseInt(header[1], 10), lines: [] };
+            hunks.push(hunk);
+        } else if (line.startsWith('--- ') && lines[index + 1]?.startsWith('+++ ')) {
+            files++;
+            hunk = undefined;
+        } else if (hunk && !line.startsWith('+++ ') && /^[ +\-\\]|^$/.test(line)) {
+            hunk.lines.push(line);
+        } else if (hunk && /^diff /.test(line)) {
+            hunk = undefined;
+        }
+    }
+
+    if (files > 1) return 'The diff changes more than one file; send one edit per file';
+    if (hunks.length === 0) return 'The diff has no hunks (lines starting with @@ -start,count +start,count @@)';
+    return hunks;
+};
+
+/**
+ * Old and new lines of a hunk, with the no-newline marker applied to the preceding line
+ */
+const getHunkSides = (hunk: Hunk): { oldLines: string[]; newLines: string[] } => {
+    const oldLines: string[] = [];
+    const newLines: string[] = [];
+    let previous = ' ';
+    for (const line of hunk.lines) {
+        if (line.startsWith('\\')) {
+            if (previous !== '+') oldLines[oldLines.length - 1] += NO_NEWLINE_SUFFIX;
+            if (previous !== '-') newLines[newLines.length - 1] += NO_NEWLINE_SUFFIX;
+            continue;
+        }
+        // Editors often strip the space of empty context lines
+        const prefix = line[0] ?? ' ';
+        const text = line.slice(1);
+        if (prefix !== '+') oldLines.push(text);
+        if (prefix !== '-') newLines.push(text);
+        previous = prefix;
+    }
+    return { oldLines, newLines };
+};
+
+// Hand-written diffs often leave out the no-newline marker, so it is not required for a match
+const matchesAt = (fileLines: string[], lines: string[], position: number): boolean =>
+    lines.every(
+        (line, offset) =>
+            position + offset < fileLines.length &&
+            stripNoNewline(fileLines[position + offset]) === stripNoNewline(line),
+    );
+
+/**
+ * Describe why a hunk does not apply at its expected position
+ */
+const describeMismatch = (fileLines: string[], oldLines: string[], position: number): string => {
+    const offset = oldLines.findIndex((line, index) => !matchesAt(fileLines, [line], position + index));
+    const expected = JSON.stringify(stripNoNewline(oldLines[offset]));
+    const lineNumber = position + offset + 1;
+    if (lineNumber > fileLines.length) {
+        return `expected ${expected} at line ${lineNumber}, but the file has ${fileLines.length} lines`;
+    }
+    const actual = JSON.stringify(stripNoNewline(fileLines[lineNumber - 1]));
+    return `expected ${expected} at line ${lineNumber}, found ${actual}`;
+};
+
+/**
+ * Apply a unified diff; a hunk whose lines moved is applied at the nearest position where its context matches,
+ * like patch does
+ * Diffs are read with LF line endings, so a file with CRLF line endings is patched as LF and converted back
+ */
+export const applyUnifiedDiff = (content: string, diff: string): EditOutcome => {
+    const hunks = parseUnifiedDiff(diff);
+    if (typeof hunks === 'string') return { error: hunks };
+
+    const crlf = content.includes('\r\n') && !/(?:^|[^\r])\n/.test(content);
+    const fileLines = splitLines(crlf ? content.replace(/\r\n/g, '\n') : content);
+    const result: string[] = [];
+    let cursor = 0;
+    for (const [index, hunk] of hunks.entries()) {
+        const { oldLines, newLines } = getHunkSides(hunk);
+        // A hunk without old lines inserts after line oldStart
+        const expected = Math.max(cursor, oldLines.length === 0 ? hunk.oldStart : hunk.oldStart - 1);
+        const last = fileLines.length - oldLines.length;
+
+        let position = -1;
+        for (
+            let distance = 0;
+            position < 0 && (expected - distance >= cursor || expected + distance <= last);
+            distance++
+        ) {
+            if (expected - distance >= cursor && matchesAt(fileLines, oldLines, expected - distance)) {
+                position = expected - distance;
+            } else if (expected + distance <= last && matchesAt(fileLines, oldLines, expected + distance)) {
+                position = expected + distance;
+            }
+        }
+        if (position < 0) {
+            const reason = describeMismatch(fileLines, oldLines, expected);
+            return {
+                error: `Hunk ${index + 1} (${hunk.header}) does not apply: ${reason}, and its lines were not found elsewhere after the previous hunk`,
+            };
+        }
+
+        result.push(...fileLines.slice(cursor, position), ...newLines);
+        cursor = position + oldLines.length;
+    }
+    result.push(...fileLines.slice(cursor));
+
+    // Only the last line may lack its newline; without markers in the diff, the file keeps its trailing newline or
+    // the lack of it
+    const lines = result.map(stripNoNewline);
+    const lastLine = hunks.some((hunk) => hunk.lines.some((line) => line.startsWith('\\')))
+        ? result[result.length - 1]
+        : fileLines[fileLines.length - 1];
+    if (lines.length > 0 && lastLine?.endsWith(NO_NEWLINE_SUFFIX)) lines[lines.length - 1] += NO_NEWLINE_SUFFIX;
+    const patched = joinLines(lines);
+    return { content: crlf ? patched.replace(/\n/g, '\r\n') : patched };
+};
+
+/**
+ * Line-level edit script between two line arrays: ' ' keeps, '-' removes and '+' adds a line
+ * Common prefix and suffix are skipped, and the rest is compared by longest common subsequence
+ */
+const diffLines = (oldLines: string[], newLines: string[]): { op: ' ' | '-' | '+'; line: string }[] => {
+    let start = 0;
+    while (start < oldLines.length && start < newLines.length && oldLines[start] === newLines[start]) start++;
+    let oldEnd = oldLines.length;
+    let newEnd = newLines.length;
+    while (oldEnd > start && newEnd > start && oldLines[oldEnd - 1] === newLines[newEnd - 1]) {
+        oldEnd--;
+        newEnd--;
+    }
+
+    const oldMiddle = oldLines.slice(start, oldEnd);
+    const newMiddle = newLines.slice(start, newEnd);
+    const middle: { op: ' ' | '-' | '+'; line: string }[] = [];
+    if (oldMiddle.length * newMiddle.length > MAX_DIFF_COMPARISONS) {
+        middle.push(...oldMiddle.map((line) => ({ op: '-' as const, line })));
+        middle.push(...newMiddle.map((line) => ({ op: '+' as const, line })));
+    } else {
+        // lengths[i][j]: longest common subsequence of oldMiddle[i..] and newMiddle[j..]
+        const lengths = Array.from({ length: oldMiddle.length + 1 }, () => new Uint32Array(newMiddle.length + 1));
+        for (let i = oldMiddle.length - 1; i >= 0; i--) {
+            for (let j = newMiddle.length - 1; j >= 0; j--) {
+                lengths[i][j] =
+                    oldMiddle[i] === newMiddle[j]
+                        ? lengths[i + 1][j + 1] + 1
+                        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+            }
+        }
+        let i = 0;
+        let j = 0;
+        while (i < oldMiddle.length || j < newMiddle.length) {
+            if (i < oldMiddle.length && j < newMiddle.length && oldMiddle[i] === newMiddle[j]) {
+                middle.push({ op: ' ', line: oldMiddle[i++] });
+                j++;
+            } else if (j >= newMiddle.length || (i < oldMiddle.length && lengths[i + 1][j] >= lengths[i][j + 1])) {
+                middle.push({ op: '-', line: oldMiddle[i++] });
+            } else {
+                middle.push({ op: '+', line: newMiddle[j++] });
+            }
+        }
+    }
+
+    return [
+        ...oldLines.slice(0, start).map((line) => ({ op: ' ' as const, line })),
+        ...middle,
+        ...oldLines.slice(oldEnd).map((line) => ({ op: ' ' as const, line })),
+    ];
+};
+
+/**
+ * Unified diff between two versions of a file, with DIFF_CONTEXT_LINES lines of context
+ * @param fileName - Name shown in the --- and +++ headers
+ * @returns The diff, or an empty string if the contents are equal
+ */
+export const createUnifiedDiff = (oldContent: string, newContent: string, fileName: string): string => {
+    const script = diffLines(splitLines(oldContent), splitLines(newContent));
+    const changes = script.flatMap((entry, index) => (entry.op === ' ' ? [] : [index]));
+    if (changes.length === 0) return '';
+
+    const output = [`--- a/${fileName}`, `+++ b/${fileName}`];
+    let index = 0;
+    while (index < changes.length) {
+        // Group changes whose context overlaps into one hunk
+        let end = index;
+        while (end + 1 < changes.length && changes[end + 1] - changes[end] <= 2 * DIFF_CONTEXT_LINES + 1) end++;
+        const from = Math.max(0, changes[index] - DIFF_CONTEXT_LINES);
+        const to = Math.min(script.length, changes[end] + DIFF_CONTEXT_LINES + 1);
+
+        const before = script.slice(0, from);
+        const oldStart = before.filter((entry) => entry.op !== '+').length + 1;
+        const newStart = before.filter((entry) => entry.op !== '-').length + 1;
+        const hunk = script.slice(from, to);
+        const oldCount = hunk.filter((entry) => entry.op !== '+').length;
+        const newCount = hunk.filter((entry) => entry.op !== '-').length;
+        // An empty side starts at the line before the hunk, like diff -u
+        output.push(
+            `@@ -${oldCount ? oldStart : oldStart - 1},${oldCount} +${newCount ? newStart : newStart - 1},${newCount} @@`,
+        );
+        for (const { op, line } of hunk) {
+            if (line.endsWith(NO_NEWLINE_SUFFIX)) {
+                output.push(`${op}${stripNoNewline(line)}`, NO_NEWLINE_MARKER);
+            } else {
+                output.push(`${op}${line}`);
+            }
+        }
+        index = end + 1;
+    }
+    return `${output.join('\n')}\n`;
+};
@@ -1,5 +1,5 @@
 // Environment setup for code execution (Node.js and Python)
-import { exec } from 'node:child_process';
+import { exec, execFile } from 'node:child_process';
 import { promises as fs } from 'node:fs';
 import path from 'node:path';
 import { promisify } from 'node:util';
@@ -7,8 +7,12 @@ import { promisify } from 'node:util';
 import { log } from 'apify';
 
 import { INIT_SCRIPT_TIMEOUT, JS_TS_CODE_DIR, PYTHON_CODE_DIR, SANDBOX_DIR } from './consts.js';
+import { getEgressEnvironment } from './network.js';
+import { getSecretEnvironment } from './secrets.js';
+import { getUserEnvironment } from './user.js';
 
 const execAsync = promisify(exec);
+const execFileAsync = promisify(execFile);
 
 /**
  * Directories for code execution environments
@@ -143,6 +147,36 @@ export const initializePythonEnvironment = async (): Promise<void> => {
     }
 };
 
+/**
+ * Outcome of a dependency installation; output holds the combined installer output
+ */
+export interface LibraryInstallResult {
+    success: boolean;
+    installed: string[];
+    failed: { library: string; error: string }[];
+    output: string;
+}
+
+/**
+ * How installers are spawned; by default as the server user with the server environment
+ * Installs requested by user code pass the execution user and environment (see dependencies.ts)
+ */
+export interface LibraryInstallOptions {
+    env?: NodeJS.ProcessEnv;
+    uid?: number;
+    gid?: number;
+    /**
+     * Aborts the running installer; the remaining libraries fail right away
+     */
+    signal?: AbortSignal;
+}
+
+/**
+ * Combined stdout and stderr of an installer run (also available on its error)
+ */
+const getInstallerOutput = (result: { stdout?: string; stderr?: string }): string =>
+    `${result.stdout ?? ''}${result.stderr ?? ''}`;
+
 /**
  * Install Node.js libraries via npm
  * Note: apify-client is pre-installed from Dockerfile
@@ -151,14 +185,11 @@ export const initializePythonEnvironment = async (): Promise<void> => {
  */
 export const installNodeLibraries = async (
     dependencies: Record<string, string> | undefined,
-): Promise<{
-    success: boolean;
-    installed: string[];
-    failed: { library: string; error: string }[];
-}> => {
+    options: LibraryInstallOptions = {},
+): Promise<LibraryInstallResult> => {
     if (!dependencies || Object.keys(dependencies).length === 0) {
         log.debug('No Node.js dependencies to install');
-        return { success: true, installed: [], failed: [] };
+        return { success: true, installed: [], failed: [], output: '' };
     }
 
     const packageSpecs = Object.entries(dependencies).map(([pkg, version]) => `${pkg}@${version}`);
@@ -166,25 +197,29 @@ export const installNodeLibraries = async (
 
     const installed: string[] = [];
     const failed: { library: string; error: string }[] = [];
+    let output = '';
 
     for (const [packageName, version] of Object.entries(dependencies)) {
         const packageSpec = `${packageName}@${version}`;
         try {
             log.debug('Installing Node.js dependency', { package: packageSpec });
-            // Install packages in /sandbox/js-ts/node_modules
-            await execAsync(`npm install --save ${packageSpec}`, {
+            // Install packages in /sandbox/js-ts/node_modules (no shell, so version ranges like >=1 stay intact)
+            const result = await execFileAsync('npm', ['install', '--save', packageSpec], {
                 cwd: JS_TS_CODE_DIR,
                 timeout: 120000, // 2 minutes per library
                 env: {
                     ...process.env,
                     NODE_PATH: EXECUTION_DIRS.NODE_MODULES,
                 },
+                ...options,
             });
 
+            output += getInstallerOutput(result);
             installed.push(packageSpec);
             log.debug('Node.js dependency installed successfully', { package: packageSpec });
         } catch (error) {
             const err = error as Error;
+            output += getInstallerOutput(error as { stdout?: string; stderr?: string });
             log.warning('Failed to install Node.js dependency', { package: packageSpec, error: err.message });
             failed.push({ library: packageSpec, error: err.message });
         }
@@ -193,7 +228,7 @@ export const installNodeLibraries = async (
     const success = failed.length === 0;
     log.info('Node.js dependencies installation completed', { installed: installed.length, failed: failed.length });
 
-    return { success, installed, failed };
+    return { success, installed, failed, output };
 };
 
 /**
@@ -204,14 +239,11 @@ export const installNodeLibraries = async (
  */
 export const installPythonLibraries = async (
     requirementsTxt: string | undefined,
-): Promise<{
-    success: boolean;
-    installed: string[];
-    failed: { library: string; error: string }[];
-}> => {
+    options: LibraryInstallOptions = {},
+): Promise<LibraryInstallResult> => {
     if (!requirementsTxt || requirementsTxt.trim().length === 0) {
         log.debug('No Python requirements to install');
-        return { success: true, installed: [], failed: [] };
+        return { success: true, installed: [], failed: [], output: '' };
     }
 
     // Parse requirements.txt format
@@ -222,13 +254,14 @@ export const installPythonLibraries = async (
 
     if (requirements.length === 0) {
         log.debug('No Python requirements to install (after parsing)');
-        return { success: true, installed: [], failed: [] };
+        return { success: true, installed: [], failed: [], output: '' };
     }
 
     log.info('Installing Python requirements', { count: requirements.length, requirements });
 
     const installed: string[] = [];
     const failed: { library: string; error: string }[] = [];
+    let output = '';
 
     // Ensure Python venv exists
     await initializePythonEnvironment();
@@ -238,14 +271,19 @@ export const installPythonLibraries = async (
     for (const requirement of requirements) {
         try {
             log.debug('Installing Python requirement', { requirement });
-            await execAsync(`${pipBinary} install ${requirement}`, {
+            // No shell, so specifiers like >=2.0 stay intact; option lines (e.g. --index-url URL) are split into words
+            const args = requirement.startsWith('-') ? requirement.split(/\s+/) : [requirement];
+            const result = await execFileAsync(pipBinary, ['install', ...args], {
                 timeout: 120000, // 2 minutes per requirement
+                ...options,
             });
 
+            output += getInstallerOutput(result);
             installed.push(requirement);
             log.debug('Python requirement installed successfully', { requirement });
         } catch (error) {
             const err = error as Error;
+            output += getInstallerOutput(error as { stdout?: string; stderr?: string });
             log.warning('Failed to install Python requirement', { requirement, error: err.message });
             failed.push({ library: requirement, error: err.message });
         }
@@ -254,7 +292,7 @@ export const installPythonLibraries = async (
     const success = failed.length === 0;
     log.info('Python requirements installation completed', { installed: installed.length, failed: failed.length });
 
-    return { success, installed, failed };
+    return { success, installed, failed, output };
 };
 
 /**
@@ -373,11 +411,35 @@ export const setupExecutionEnvironment = async (input: {
     };
 };
 
+/**
+ * Validate per-request environment variable overrides
+ * @returns Error message, or null if the overrides are valid
+ */
+export const validateEnvironmentOverrides = (overrides: unknown): string | null => {
+    if (overrides === undefined) return null;
+    if (typeof overrides !== 'object' || overrides === null || Array.isArray(overrides)) {
+        return 'env must be an object mapping variable names to string values (or null to unset)';
+    }
+    for (const [key, value] of Object.entries(overrides)) {
+        if (!/^[^=\0]+$/.test(key)) {
+            return `Invalid environment variable name: ${JSON.stringify(key)}`;
+        }
+        if (value !== null && typeof value !== 'string') {
+            return `Invalid value for environment variable ${key}: must be a string or null`;
+        }
+        if (typeof value === 'string' && value.includes('\0')) {
+            return `Invalid value for environment variable ${key}: must not contain NUL characters`;
+        }
+    }
+    return null;
+};
+
 /**
  * Get environment variables for code execution
  * Returns environment with paths to Python venv and Node modules
+ * @param overrides - Variables set on top of the environment; null unsets an inherited variable
  */
-export const getExecutionEnvironment = (): NodeJS.ProcessEnv => {
+export const getExecutionEnvironment = (overrides: Record<string, string | null> = {}): NodeJS.ProcessEnv => {
     const env: NodeJS.ProcessEnv = {};
 
     // Copy all environment variables
@@ -399,6 +461,24 @@ export const getExecutionEnvironment = (): NodeJS.ProcessEnv => {
     env.VIRTUAL_ENV = EXECUTION_DIRS.PYTHON_VENV;
     env.PYTHONHOME = '';
 
+    // Secrets from the Actor input
+    Object.assign(env, getSecretEnvironment());
+
+    // HOME and USER of the sandbox user if executions run unprivileged
+    Object.assign(env, getUserEnvironment());
+
+    // Proxy of the network egress policy
+    Object.assign(env, getEgressEnvironment());
+
+    // Apply per-request overrides last so they win over the defaults above
+    Object.entries(overrides).forEach(([key, value]) => {
+        if (value === null) {
+            delete env[key];
+        } else {
+            env[key] = value;
+        }
+    });
+
     return env;
 };
 
@@ -0,0 +1,245 @@
+// Background jobs for long-running processes (dev servers, watchers, long test suites)
+import type { ChildProcess } from 'node:child_process';
+import { spawn } from 'node:child_process';
+import crypto from 'node:crypto';
+
+import { log } from 'apify';
+
+import { JOB_KILL_GRACE_PERIOD, JOB_OUTPUT_BUFFER_SIZE, MAX_FINISHED_JOBS, SANDBOX_DIR } from './consts.js';
+import { getExecutionEnvironment } from './environment.js';
+import { SecretStreamRedactor } from './secrets.js';
+import { getUserSpawnOptions } from './user.js';
+
+export type JobStatus = 'running' | 'exited' | 'killed' | 'timedOut' | 'failed';
+
+/**
+ * Public view of a background job
+ */
+export interface JobInfo {
+    id: string;
+    command: string;
+    cwd: string;
+    pid?: number;
+    status: JobStatus;
+    exitCode: number | null;
+    signal: string | null;
+    startedAt: string;
+    finishedAt: string | null;
+    /**
+     * Total number of output characters produced so far (including dropped ones)
+     */
+    outputSize: number;
+    error?: string;
+}
+
+/**
+ * Fixed-size output buffer addressed by absolute character offsets
+ * Once the capacity is exceeded, the oldest output is dropped
+ */
+class OutputRingBuffer {
+    private data = '';
+
+    private startOffset = 0;
+
+    constructor(private readonly capacity: number) {}
+
+    get endOffset(): number {
+        return this.startOffset + this.data.length;
+    }
+
+    append(chunk: string): void {
+        this.data += chunk;
+        const overflow = this.data.length - this.capacity;
+        if (overflow > 0) {
+            this.data = this.data.slice(overflow);
+            this.startOffset += overflow;
+        }
+    }
+
+    read(offset = 0): { output: string; offset: number; nextOffset: number; truncated: boolean } {
+        const from = Math.max(offset, this.startOffset);
+        return {
+            output: this.data.slice(from - this.startOffset),
+            offset: from,
+            nextOffset: this.endOffset,
+            // Some of the requested output was already dropped from the buffer
+            truncated: offset < this.startOffset,
+        };
+    }
+}
+
+interface Job {
+    info: JobInfo;
+    process: ChildProcess;
+    output: OutputRingBuffer;
+    timer?: NodeJS.Timeout;
+}
+
+const jobs = new Map<string, Job>();
+
+/**
+ * Drop the oldest finished jobs once more than MAX_FINISHED_JOBS are retained
+ */
+const pruneFinishedJobs = (): void => {
+    const finished = [...jobs.values()].filter((job) => job.info.finishedAt !== null);
+    const excess = finished.length - MAX_FINISHED_JOBS;
+    for (let i = 0; i < excess; i++) {
+        jobs.delete(finished[i].info.id);
+        log.debug('Pruned finished job', { id: finished[i].info.id });
+    }
+};
+
+/**
+ * Send a signal to the job's whole process group (the job is spawned detached, so it leads its own group)
+ */
+const signalJob = (job: Job, signal: NodeJS.Signals): void => {
+    if (!job.process.pid) return;
+    try {
+        process.kill(-job.process.pid, signal);
+    } catch {
+        // Process group already gone
+    }
+};
+
+/**
+ * Terminate a running job: SIGTERM first, SIGKILL after a grace period
+ */
+const terminateJob = (job: Job): void => {
+    signalJob(job, 'SIGTERM');
+    setTimeout(() => {
+        if (!job.info.finishedAt) {
+            log.debug('Job did not exit after SIGTERM, sending SIGKILL', { id: job.info.id });
+            signalJob(job, 'SIGKILL');
+        }
+    }, JOB_KILL_GRACE_PERIOD).unref();
+};
+
+/**
+ * Start a shell command as a background job
+ * Returns immediately; poll getJob/readJobOutput for progress
+ */
+export const startJob = (command: string, cwd?: string, timeout?: number): JobInfo => {
+    const id = crypto.randomBytes(6).toString('hex');
+    const workingDir = cwd || SANDBOX_DIR;
+    log.debug('startJob called', { id, command, cwd: workingDir, timeout });
+
+    const child = spawn(command, {
+        shell: true,
+        cwd: workingDir,
+        env: getExecutionEnvironment(),
+        ...getUserSpawnOptions(),
+        stdio: ['ignore', 'pipe', 'pipe'],
+        detached: true,
+    });
+
+    const job: Job = {
+        info: {
+            id,
+            command,
+            cwd: workingDir,
+            pid: child.pid,
+            status: 'running',
+            exitCode: null,
+            signal: null,
+            startedAt: new Date().toISOString(),
+            finishedAt: null,
+            outputSize: 0,
+        },
+        process: child,
+        output: new OutputRingBuffer(JOB_OUTPUT_BUFFER_SIZE),
+    };
+    jobs.set(id, job);
+
+    // Output is redacted before it is buffered, so offsets refer to the redacted output and reads can start anywhere
+    const redactors = { stdout: new SecretStreamRedactor(), stderr: new SecretStreamRedactor() };
+    const appendOutput = (data: string) => {
+        job.output.append(data);
+        job.info.outputSize = job.output.endOffset;
+    };
+    child.stdout.setEncoding('utf8');
+    child.stderr.setEncoding('utf8');
+    child.stdout.on('data', (data: string) => appendOutput(redactors.stdout.push(data)));
+    child.stderr.on('data', (data: string) => appendOutput(redactors.stderr.push(data)));
+
+    if (timeout) {
+        job.timer = setTimeout(() => {
+            log.debug('Job timed out', { id, timeout });
+            job.info.status = 'timedOut';
+            terminateJob(job);
+        }, timeout);
+    }
+
+    const finish = (exitCode: number | null, signal: NodeJS.Signals | null) => {
+        if (job.info.finishedAt) return;
+        if (job.timer) clearTimeout(job.timer);
+        appendOutput(redactors.stdout.flush() + redactors.stderr.flush());
+        job.info.exitCode = exitCode;
+        job.info.signal = signal;
+        job.info.finishedAt = new Date().toISOString();
+        if (job.info.status === 'running') {
+            job.info.status = 'exited';
+        }
+        log.debug('Job finished', { id, status: job.info.status, exitCode, signal });
+        pruneFinishedJobs();
+    };
+
+    child.on('error', (err) => {
+        job.info.status = 'failed';
+        job.info.error = err.message;
+        finish(null, null);
+    });
+
+    child.on('close', finish);
+
+    return { ...job.info };
+};
+
+/**
+ * List all known jobs (running and recently finished)
+ */
+export const listJobs = (): JobInfo[] => [...jobs.values()].map((job) => ({ ...job.info }));
+
+/**
+ * Get job status by ID
+ */
+export const getJob = (id: string): JobInfo | undefined => {
+    const job = jobs.get(id);
+    return job ? { ...job.info } : undefined;
+};
+
+/**
+ * Read job output starting at the given character offset
+ * Use the returned nextOffset as the offset for the next call to receive only new output
+ */
+export const readJobOutput = (
+    id: string,
+    offset = 0,
+):
+    | (JobInfo & {
+          output: string;
+          offset: number;
+          nextOffset: number;
+          truncated: boolean;
+      })
+    | undefined => {
+    const job = jobs.get(id);
+    if (!job) return undefined;
+    return { ...job.info, ...job.output.read(offset) };
+};
+
+/**
+ * Kill a running job and its child processes
+ * Finished jobs are returned unchanged
+ */
+export const killJob = (id: string): JobInfo | undefined => {
+    const job = jobs.get(id);
+    if (!job) return undefined;
+
+    if (job.info.status === 'running') {
+        log.debug('killJob called', { id, pid: job.info.pid });
+        if (job.timer) clearTimeout(job.timer);
+        job.info.status = 'killed';
+        terminateJob(job);
+    }
+    return { ...job.info };
+};
@@ -0,0 +1,495 @@
+// Stateful Python and Node.js REPL kernels
+// Unlike executeCode, a kernel keeps one interpreter process alive so variables survive between executions
+import type { ChildProcess } from 'node:child_process';
+import { spawn } from 'node:child_process';
+import crypto from 'node:crypto';
+import { existsSync, statSync } from 'node:fs';
+import path from 'node:path';
+import type { Readable, Writable } from 'node:stream';
+
+import { log } from 'apify';
+
+import { JS_TS_CODE_DIR, KERNEL_INTERRUPT_GRACE_PERIOD, MAX_KERNELS, PYTHON_CODE_DIR, SANDBOX_DIR } from './consts.js';
+import { getExecutionEnvironment } from './environment.js';
+import { redactSecrets } from './secrets.js';
+import { getUserSpawnOptions } from './user.js';
+
+export type KernelLanguage = 'py' | 'js';
+
+export type KernelStatus = 'idle' | 'busy' | 'dead';
+
+/**
+ * Public view of a kernel
+ */
+export interface KernelInfo {
+    id: string;
+    /**
+     * Optional name given by the caller; kernels can be addressed by it instead of the ID
+     */
+    name: string | null;
+    language: KernelLanguage;
+    cwd: string;
+    pid?: number;
+    status: KernelStatus;
+    executionCount: number;
+    createdAt: string;
+    lastExecutedAt: string | null;
+}
+
+/**
+ * Result of a single kernel execution
+ */
+export interface KernelExecutionResult {
+    stdout: string;
+    stderr: string;
+    /**
+     * Short description of the raised exception, or null on success
+     */
+    error: string | null;
+    executionCount: number;
+    durationMs: number;
+    timedOut: boolean;
+}
+
+/**
+ * Outcome of creating a kernel; the error code tells invalid input apart from a taken name or a full kernel limit
+ */
+export type CreateKernelResult =
+    | { kernel: KernelInfo }
+    | { error: string; code: 'INVALID_NAME' | 'INVALID_CWD' | 'NAME_IN_USE' | 'KERNEL_LIMIT' };
+
+/**
+ * Kernel names: letters, digits, dots, dashes and underscores
+ */
+const KERNEL_NAME_PATTERN = /^[\w.-]{1,64}$/;
+
+/**
+ * Python kernel driver
+ * Reads one JSON request per line from fd 4, runs the code in a persistent namespace
+ * and writes one JSON response per line to fd 3. The value of a trailing expression is printed like in a REPL.
+ * Standard input is /dev/null, so input() in user code (or a subprocess) gets EOF instead of the next request.
+ */
+const PYTHON_KERNEL_DRIVER = String.raw`
+import ast, contextlib, io, json, os, sys, traceback
+
+protocol = os.fdopen(3, 'w')
+requests = os.fdopen(4, 'r')
+namespace = {'__name__': '__main__', '__builtins__': __builtins__}
+
+def run(code):
+    tree = ast.parse(code, '<kernel>', 'exec')
+    last = None
+    if tree.body and isinstance(tree.body[-1], ast.Expr):
+        last = ast.Expression(tree.body.pop().value)
+    exec(compile(tree, '<kernel>', 'exec'), namespace)
+    if last is not None:
+        value = eval(compile(last, '<kernel>', 'eval'), namespace)
+        if value is not None:
+            print(repr(value))
+
+while True:
+    try:
+        line = requests.readline()
+    except KeyboardInterrupt:
+        continue
+    if not line:
+        break
+    request = json.loads(line)
+    stdout, stderr = io.StringIO(), io.StringIO()
+    error = None
+    try:
+        with contextlib.redirect_stdout(stdout), contextlib.redirect_stderr(stderr):
+            try:
+                run(request['code'])
+            except BaseException as e:
+                error = type(e).__name__ + (': ' + str(e) if str(e) else '')
+                tb = e.__traceback__
+                while tb is not None and tb.tb_frame.f_code.co_filename != '<kernel>':
+                    tb = tb.tb_next
+                traceback.print_exception(type(e), e, tb)
+    except KeyboardInterrupt:
+        error = 'KeyboardInterrupt'
+    protocol.write(json.dumps({'stdout': stdout.getvalue(), 'stderr': stderr.getvalue(), 'error': error}) + '\n')
+    protocol.flush()
+`;
+
+/**
+ * Node.js kernel driver
+ * Same protocol as the Python driver; code runs in the main context so top-level declarations persist.
+ * Code with top-level await is rewritten by the transform of the Node.js REPL (needs --expose-internals), which
+ * hoists the declarations out of the async wrapper. A returned promise is awaited and the completion value is printed
+ * like in a REPL.
+ */
+const NODE_KERNEL_DRIVER = String.raw`
+const fs = require('node:fs');
+const net = require('node:net');
+const readline = require('node:readline');
+const { inspect } = require('node:util');
+const vm = require('node:vm');
+
+globalThis.require = require;
+
+let processTopLevelAwait = () => null;
+try {
+    ({ processTopLevelAwait } = require('internal/repl/await'));
+} catch {
+    // Top-level await stays a SyntaxError
+}
+
+let abortCurrent = null;
+process.on('SIGINT', () => {
+    if (abortCurrent) abortCurrent(new Error('Interrupted'));
+});
+
+const rl = readline.createInterface({ input: new net.Socket({ fd: 4, readable: true, writable: false }) });
+rl.on('line', async (line) => {
+    const { code } = JSON.parse(line);
+    let stdout = '';
+    let stderr = '';
+    let error = null;
+    const originalStdoutWrite = process.stdout.write;
+    const originalStderrWrite = process.stderr.write;
+    process.stdout.write = (chunk) => { stdout += String(chunk); return true; };
+    process.stderr.write = (chunk) => { stderr += String(chunk); return true; };
+    try {
+        const wrapped = code.includes('await') ? processTopLevelAwait(code) : null;
+        let result = vm.runInThisContext(wrapped ?? code, {
+            filename: '<kernel>',
+            breakOnSigint: true,
+            importModuleDynamically: vm.constants ? vm.constants.USE_MAIN_CONTEXT_DEFAULT_LOADER : undefined,
+        });
+        if (result && typeof result.then === 'function') {
+            result = await new Promise((resolve, reject) => {
+                abortCurrent = reject;
+                result.then(resolve, reject);
+            });
+        }
+        // The wrapper resolves to { value } if the code ends with an expression
+        if (wrapped !== null) result = result ? result.value : undefined;
+        if (result !== undefined) stdout += inspect(result) + '\n';
+    } catch (e) {
+        error = e instanceof Error ? e.name + ': ' + e.message : String(e);
+        // Keep only stack frames from the executed code, not from the driver
+        const stack = e instanceof Error && e.stack ? e.stack : String(e);
+        stderr += stack.split('\n').filter((l) => !l.startsWith('    at ') || l.includes('<kernel>')).join('\n') + '\n';
+    } finally {
+        abortCurrent = null;
+        process.stdout.write = originalStdoutWrite;
+        process.stderr.write = originalStderrWrite;
+    }
+    fs.writeSync(3, JSON.stringify({ stdout, stderr, error }) + '\n');
+});
+`;
+
+interface PendingExecution {
+    resolve: (result: KernelExecutionResult) => void;
+    reject: (error: Error) => void;
+    startedAt: number;
+    timedOut: boolean;
+    timer?: NodeJS.Timeout;
+}
+
+/**
+ * A persistent interpreter process with its bookkeeping
+ */
+class Kernel {
+    readonly info: KernelInfo;
+
+    private process!: ChildProcess;
+
+    private requests!: Writable;
+
+    private protocolBuffer = '';
+
+    private pending: PendingExecution | null = null;
+
+    // Output written directly to the process stdout/stderr (e.g. by subprocesses) during an execution
+    private directStdout = '';
+
+    private directStderr = '';
+
+    constructor(language: KernelLanguage, cwd: string, name?: string) {
+        this.info = {
+            id: crypto.randomBytes(6).toString('hex'),
+            name: name ?? null,
+            language,
+            cwd,
+            status: 'idle',
+            executionCount: 0,
+            createdAt: new Date().toISOString(),
+            lastExecutedAt: null,
+        };
+        this.start();
+    }
+
+    private start(): void {
+        const [command, args] =
+            this.info.language === 'py'
+                ? ['python', ['-u', '-c', PYTHON_KERNEL_DRIVER]]
+                : ['node', ['--disable-warning=ExperimentalWarning', '--expose-internals', '-e', NODE_KERNEL_DRIVER]];
+
+        const child = spawn(command, args, {
+            cwd: this.info.cwd,
+            env: getExecutionEnvironment(),
+            ...getUserSpawnOptions(),
+            // Requests go through fd 4 and responses through fd 3, user code only sees /dev/null as stdin
+            stdio: ['ignore', 'pipe', 'pipe', 'pipe', 'pipe'],
+        });
+        this.process = child;
+        this.protocolBuffer = '';
+        this.info.pid = child.pid;
+        this.info.status = 'idle';
+
+        child.stdout?.setEncoding('utf8');
+        child.stderr?.setEncoding('utf8');
+        child.stdout?.on('data', (data: string) => {
+            if (this.pending) this.directStdout += data;
+        });
+        child.stderr?.on('data', (data: string) => {
+            if (this.pending) this.directStderr += data;
+        });
+
+        // Writing code to a kernel that just died fails with EPIPE
+        this.requests = child.stdio[4] as Writable;
+        this.requests.on('error', (err) => {
+            if (child !== this.process) return;
+            log.debug('Failed to write to kernel', { id: this.info.id, error: err.message });
+            this.info.status = 'dead';
+            this.fail(new Error(`Kernel is not running: ${err.message}. Restart it to continue.`));
+        });
+
+        const protocol = child.stdio[3] as Readable;
+        protocol.setEncoding('utf8');
+        protocol.on('data', (data: string) => {
+            this.protocolBuffer += data;
+            let newlineIndex = this.protocolBuffer.indexOf('\n');
+            while (newlineIndex !== -1) {
+                const line = this.protocolBuffer.slice(0, newlineIndex);
+                this.protocolBuffer = this.protocolBuffer.slice(newlineIndex + 1);
+                this.handleResponse(line);
+                newlineIndex = this.protocolBuffer.indexOf('\n');
+            }
+        });
+
+        child.on('error', (err) => {
+            if (child !== this.process) return;
+            log.warning('Kernel process error', { id: this.info.id, error: err.message });
+            this.info.status = 'dead';
+            this.complete({ stdout: '', stderr: '', error: `Kernel process error: ${err.message}` });
+        });
+
+        child.on('exit', (code, signal) => {
+            // Ignore exits of processes replaced by restart()
+            if (child !== this.process) return;
+            log.debug('Kernel process exited', { id: this.info.id, code, signal });
+            this.info.status = 'dead';
+            this.complete({ stdout: '', stderr: '', error: `Kernel process exited (code ${code}, signal ${signal})` });
+        });
+
+        log.debug('Kernel process started', { id: this.info.id, language: this.info.language, pid: child.pid });
+    }
+
+    private handleResponse(line: string): void {
+        try {
+            const response = JSON.parse(line) as { stdout: string; stderr: string; error: string | null };
+            this.complete(response);
+        } catch (error) {
+            log.warning('Invalid kernel response', { id: this.info.id, error: (error as Error).message });
+        }
+    }
+
+    private complete(response: { stdout: string; stderr: string; error: string | null }): void {
+        const { pending } = this;
+        if (!pending) return;
+        if (pending.timer) clearTimeout(pending.timer);
+        this.pending = null;
+        if (this.info.status === 'busy') this.info.status = 'idle';
+
+        pending.resolve({
+            stdout: redactSecrets(this.directStdout + response.stdout),
+            stderr: redactSecrets(this.directStderr + response.stderr),
+            error: response.error === null ? null : redactSecrets(response.error),
+            executionCount: this.info.executionCount,
+            durationMs: Date.now() - pending.startedAt,
+            timedOut: pending.timedOut,
+        });
+        this.directStdout = '';
+        this.directStderr = '';
+    }
+
+    private fail(error: Error): void {
+        const { pending } = this;
+        if (!pending) return;
+        if (pending.timer) clearTimeout(pending.timer);
+        this.pending = null;
+        this.directStdout = '';
+        this.directStderr = '';
+        pending.reject(error);
+    }
+
+    async execute(code: string, timeout?: number): Promise<KernelExecutionResult> {
+        if (this.info.status === 'dead') {
+            throw new Error('Kernel is not running. Restart it to continue.');
+        }
+        if (this.pending) {
+            throw new Error('Kernel is busy. Wait for the current execution to finish or interrupt it.');
+        }
+
+        this.info.status = 'busy';
+        this.info.executionCount += 1;
+        this.info.lastExecutedAt = new Date().toISOString();
+
+        return new Promise((resolve, reject) => {
+            const pending: PendingExecution = { resolve, reject, startedAt: Date.now(), timedOut: false };
+            this.pending = pending;
+
+            if (timeout) {
+                pending.timer = setTimeout(() => {
+                    log.debug('Kernel execution timed out, interrupting', { id: this.info.id, timeout });
+                    pending.timedOut = true;
+                    this.interrupt();
+                }, timeout);
+            }
+
+            this.requests.write(`${JSON.stringify({ code })}\n`);
+        });
+    }
+
+    /**
+     * Interrupt the running execution (like Ctrl+C)
+     * If the kernel does not respond within the grace period, it is restarted and its state is lost
+     */
+    interrupt(): void {
+        const { pending } = this;
+        if (!pending || !this.process.pid) return;
+
+        this.process.kill('SIGINT');
+        setTimeout(() => {
+            if (this.pending === pending) {
+                log.warning('Kernel did not respond to interrupt, restarting', { id: this.info.id });
+                this.restart();
+            }
+        }, KERNEL_INTERRUPT_GRACE_PERIOD).unref();
+    }
+
+    /**
+     * Replace the interpreter process with a fresh one, discarding all state
+     */
+    restart(): void {
+        const previous = this.process;
+        this.complete({ stdout: '', stderr: '', error: 'Kernel was restarted' });
+        this.start();
+        previous.kill('SIGKILL');
+        this.info.executionCount = 0;
+        this.info.lastExecutedAt = null;
+    }
+
+    shutdown(): void {
+        this.complete({ stdout: '', stderr: '', error: 'Kernel was shut down' });
+        this.info.status = 'dead';
+        this.process.kill('SIGKILL');
+    }
+}
+
+const kernels = new Map<string, Kernel>();
+
+/**
+ * Find a kernel by its ID or name
+ */
+const findKernel = (idOrName: string): Kernel | undefined =>
+    kernels.get(idOrName) ?? [...kernels.values()].find((kernel) => kernel.info.name === idOrName);
+
+/**
+ * Start a new kernel
+ * @param language - Kernel language (py or js)
+ * @param cwd - Working directory (defaults to the language code directory)
+ * @param name - Optional unique name to address the kernel by instead of its ID
+ */
+export const createKernel = (language: KernelLanguage, cwd?: string, name?: string): CreateKernelResult => {
+    if (name !== undefined && (typeof name !== 'string' || !KERNEL_NAME_PATTERN.test(name))) {
+        return {
+            error: 'Invalid kernel name: use 1-64 letters, digits, dots, dashes or underscores',
+            code: 'INVALID_NAME',
+        };
+    }
+    if (name !== undefined && findKernel(name)) {
+        return { error: `Kernel name already in use: ${name}`, code: 'NAME_IN_USE' };
+    }
+    let kernelDir = language === 'py' ? PYTHON_CODE_DIR : JS_TS_CODE_DIR;
+    if (cwd) {
+        kernelDir = path.normalize(path.isAbsolute(cwd) ? cwd : path.join(SANDBOX_DIR, cwd));
+        if (!kernelDir.startsWith(SANDBOX_DIR)) {
+            return { error: `Access denied: Working directory ${cwd} is outside of sandbox`, code: 'INVALID_CWD' };
+        }
+        if (!existsSync(kernelDir) || !statSync(kernelDir).isDirectory()) {
+            return { error: `Working directory not found: ${cwd}`, code: 'INVALID_CWD' };
+        }
+    }
+    if (kernels.size >= MAX_KERNELS) {
+        return { error: `Kernel limit reached (${MAX_KERNELS}). Delete an unused kernel first.`, code: 'KERNEL_LIMIT' };
+    }
+
+    const kernel = new Kernel(language, kernelDir, name);
+    kernels.set(kernel.info.id, kernel);
+    log.debug('Kernel created', { id: kernel.info.id, name, language });
+    return { kernel: { ...kernel.info } };
+};
+
+/**
+ * List all kernels
+ */
+export const listKernels = (): KernelInfo[] => [...kernels.values()].map((kernel) => ({ ...kernel.info }));
+
+/**
+ * Get kernel by ID or name
+ */
+export const getKernel = (id: string): KernelInfo | undefined => {
+    const kernel = findKernel(id);
+    return kernel ? { ...kernel.info } : undefined;
+};
+
+/**
+ * Execute code in a kernel, keeping variables from previous executions
+ * @returns Execution result, or undefined if the kernel does not exist
+ * @throws Error if the kernel is busy or dead
+ */
+export const executeInKernel = async (
+    id: string,
+    code: string,
+    timeout?: number,
+): Promise<KernelExecutionResult | undefined> => {
+    const kernel = findKernel(id);
+    if (!kernel) return undefined;
+    return kernel.execute(code, timeout);
+};
+
+/**
+ * Interrupt the running execution of a kernel
+ */
+export const interruptKernel = (id: string): KernelInfo | undefined => {
+    const kernel = findKernel(id);
+    if (!kernel) return undefined;
+    kernel.interrupt();
+    return { ...kernel.info };
+};
+
+/**
+ * Restart a kernel, discarding all its state
+ */
+export const restartKernel = (id: string): KernelInfo | undefined => {
+    const kernel = findKernel(id);
+    if (!kernel) return undefined;
+    kernel.restart();
+    return { ...kernel.info };
+};
+
+/**
+ * Shut down and remove a kernel
+ */
+export const deleteKernel = (id: string): KernelInfo | undefined => {
+    const kernel = findKernel(id);
+    if (!kernel) return undefined;
+    kernel.shutdown();
+    kernels.delete(kernel.info.id);
+    return { ...kernel.info };
+};
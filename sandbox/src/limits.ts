@@ -0,0 +1,253 @@
+// Resource limits for command and code execution (memory, CPU time, process count, output size)
+// Memory (RSS), total CPU time and process count are enforced by sampling the process tree from /proc
+// The kernel backs them up per process via prlimit, so fast allocations and fork bombs are stopped between samples:
+// RLIMIT_CPU caps CPU time, RLIMIT_DATA the heap (RLIMIT_AS would also count the gigabytes of address space that
+// Node.js reserves and never touches) and RLIMIT_NPROC the tasks of the execution user. RLIMIT_NPROC counts threads
+// and all processes of the user, so it gets headroom, and it is not enforced for root
+// A heap allocation refused by RLIMIT_DATA fails inside the program, so it is recognized by its error at exit
+import { promises as fs } from 'node:fs';
+
+import { log } from 'apify';
+
+import { RESOURCE_LIMITS_POLL_INTERVAL } from './consts.js';
+import type { ExceededLimit, ResourceLimits } from './types.js';
+
+/**
+ * Kernel clock ticks per second (USER_HZ), used by CPU times in /proc/[pid]/stat
+ */
+const CLOCK_TICKS_PER_SECOND = 100;
+
+/**
+ * Memory page size, used by the RSS field in /proc/[pid]/stat
+ */
+const PAGE_SIZE = 4096;
+
+/**
+ * Tasks (processes and threads) of the execution user allowed per process of maxProcesses
+ * Node.js alone starts about a dozen threads
+ */
+const TASKS_PER_PROCESS = 32;
+
+/**
+ * Errors of programs whose allocation was refused: Python, Node.js (heap and buffers), C++ and libc (ENOMEM)
+ */
+const ALLOCATION_FAILURE_PATTERN =
+    /\bMemoryError\b|heap out of memory|Array buffer allocation failed|std::bad_alloc|Cannot allocate memory/;
+
+/**
+ * Trailing stderr bytes searched for an allocation failure; the error is printed last, right before the exit
+ */
+const ALLOCATION_FAILURE_TAIL_LENGTH = 8192;
+
+const LIMIT_KEYS = ['maxMemoryMb', 'maxCpuSecs', 'maxProcesses', 'maxOutputBytes'] as const;
+
+interface ProcessStat {
+    pid: number;
+    ppid: number;
+    rssBytes: number;
+    /**
+     * CPU time of the process and its reaped children, in seconds
+     */
+    cpuSecs: number;
+}
+
+let defaultLimits: ResourceLimits = {};
+
+/**
+ * Set the limits applied to executions that do not override them (from Actor input)
+ */
+export const setDefaultLimits = (limits: ResourceLimits = {}): void => {
+    defaultLimits = limits;
+    log.debug('Default execution limits set', { limits });
+};
+
+/**
+ * Validate user-provided limits
+ * @returns Error message, or null if the limits are valid
+ */
+export const validateLimits = (limits: unknown): string | null => {
+    if (limits === undefined) return null;
+    if (typeof limits !== 'object' || limits === null || Array.isArray(limits)) {
+        return 'limits must be an object';
+    }
+    for (const [key, value] of Object.entries(limits)) {
+        if (!(LIMIT_KEYS as readonly string[]).includes(key)) {
+            return `Unknown limit: ${key}. Supported: ${LIMIT_KEYS.join(', ')}`;
+        }
+        if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value) || value < 0)) {
+            return `Invalid value for limit ${key}: must be a non-negative number`;
+        }
+    }
+    return null;
+};
+
+/**
+ * Merge execution limits over the defaults
+ * Limits set to 0 are disabled
+ */
+export const resolveLimits = (limits: ResourceLimits = {}): ResourceLimits => {
+    const resolved: ResourceLimits = {};
+    for (const key of LIMIT_KEYS) {
+        const value = limits[key] ?? defaultLimits[key];
+        if (value) resolved[key] = value;
+    }
+    return resolved;
+};
+
+/**
+ * Build the executable and arguments that run a shell command under the given limits
+ * Equivalent to spawning with `shell: true` when no CPU, memory or process limit is set
+ */
+export const getLimitedSpawnArgs = (command: string, limits: ResourceLimits): { file: string; args: string[] } => {
+    const prlimitArgs: string[] = [];
+    if (limits.maxCpuSecs) {
+        // Soft limit sends SIGXCPU, the hard limit one second later sends SIGKILL
+        const cpuSecs = Math.ceil(limits.maxCpuSecs);
+        prlimitArgs.push(`--cpu=${cpuSecs}:${cpuSecs + 1}`);
+    }
+    if (limits.maxMemoryMb) {
+        // Allocations beyond the limit fail in the process instead of waiting for the next sample
+        prlimitArgs.push(`--data=${Math.ceil(limits.maxMemoryMb * 1024 * 1024)}`);
+    }
+    if (limits.maxProcesses) {
+        prlimitArgs.push(`--nproc=${Math.ceil(limits.maxProcesses) * TASKS_PER_PROCESS}`);
+    }
+    if (prlimitArgs.length === 0) {
+        return { file: '/bin/sh', args: ['-c', command] };
+    }
+    return { file: 'prlimit', args: [...prlimitArgs, '/bin/sh', '-c', command] };
+};
+
+/**
+ * Check whether a failed execution ran into the per-process memory limit
+ * The kernel refuses the allocation before the sampled memory grows, so the program's own error is the only trace
+ */
+export const isMemoryLimitFailure = (exitCode: number, stderr: string, limits: ResourceLimits): boolean =>
+    Boolean(limits.maxMemoryMb) &&
+    exitCode !== 0 &&
+    ALLOCATION_FAILURE_PATTERN.test(stderr.slice(-ALLOCATION_FAILURE_TAIL_LENGTH));
+
+/**
+ * Human-readable description of an exceeded limit, appended to stderr
+ */
+export const describeExceededLimit = (limit: ExceededLimit, limits: ResourceLimits): string => {
+    switch (limit) {
+        case 'memory':
+            return `Memory limit of ${limits.maxMemoryMb} MB exceeded`;
+        case 'cpu':
+            return `CPU time limit of ${limits.maxCpuSecs} s exceeded`;
+        case 'processes':
+            return `Process limit of ${limits.maxProcesses} exceeded`;
+        default:
+            return `Output limit of ${limits.maxOutputBytes} bytes exceeded`;
+    }
+};
+
+/**
+ * Read a single process entry from /proc
+ * Returns undefined if the process is gone
+ */
+const readProcessStat = async (pid: number): Promise<ProcessStat | undefined> => {
+    try {
+        const stat = await fs.readFile(`/proc/${pid}/stat`, 'utf8');
+        // The command name may contain spaces and parentheses, so parse fields after the last ')'
+        const fields = stat.slice(stat.lastIndexOf(')') + 2).split(' ');
+        const [utime, stime, cutime, cstime] = fields.slice(11, 15).map(Number);
+        return {
+            pid,
+            ppid: Number(fields[1]),
+            rssBytes: Number(fields[21]) * PAGE_SIZE,
+            cpuSecs: (utime + stime + cutime + cstime) / CLOCK_TICKS_PER_SECOND,
+        };
+    } catch {
+        return undefined;
+    }
+};
+
+/**
+ * Collect the given process and all its descendants
+ */
+const readProcessTree = async (rootPid: number): Promise<ProcessStat[]> => {
+    const entries = await fs.readdir('/proc');
+    const stats = await Promise.all(
+        entries.filter((entry) => /^\d+$/.test(entry)).map(async (entry) => readProcessStat(Number(entry))),
+    );
+
+    const children = new Map<number, ProcessStat[]>();
+    let root: ProcessStat | undefined;
+    for (const stat of stats) {
+        if (!stat) continue;
+        if (stat.pid === rootPid) root = stat;
+        const siblings = children.get(stat.ppid) ?? [];
+        siblings.push(stat);
+        children.set(stat.ppid, siblings);
+    }
+    if (!root) return [];
+
+    const tree = [root];
+    for (let i = 0; i < tree.length; i++) {
+        tree.push(...(children.get(tree[i].pid) ?? []));
+    }
+    return tree;
+};
+
+/**
+ * Periodically sample memory, CPU time and process count of a process tree
+ * Calls onExceeded once when any limit is exceeded; killing the processes is up to the caller
+ * @returns Function that stops watching, or undefined if no sampled limit is set
+ */
+export const watchProcessTree = (
+    rootPid: number,
+    limits: ResourceLimits,
+    onExceeded: (limit: ExceededLimit) => void,
+): (() => void) | undefined => {
+    if (!limits.maxMemoryMb && !limits.maxCpuSecs && !limits.maxProcesses) return undefined;
+
+    let stopped = false;
+    let sampling = false;
+
+    const sample = async () => {
+        const tree = await readProcessTree(rootPid);
+        if (stopped || tree.length === 0) return;
+
+        const rssBytes = tree.reduce((sum, stat) => sum + stat.rssBytes, 0);
+        const cpuSecs = tree.reduce((sum, stat) => sum + stat.cpuSecs, 0);
+
+        let exceeded: ExceededLimit | undefined;
+        if (limits.maxMemoryMb && rssBytes > limits.maxMemoryMb * 1024 * 1024) {
+            exceeded = 'memory';
+        } else if (limits.maxCpuSecs && cpuSecs > limits.maxCpuSecs) {
+            exceeded = 'cpu';
+        } else if (limits.maxProcesses && tree.length > limits.maxProcesses) {
+            exceeded = 'processes';
+        }
+
+        if (exceeded) {
+            log.info('Execution exceeded resource limit', {
+                rootPid,
+                limit: exceeded,
+                rssBytes,
+                cpuSecs,
+                processes: tree.length,
+            });
+            stopped = true;
+            onExceeded(exceeded);
+        }
+    };
+
+    const interval = setInterval(() => {
+        // Skip a tick rather than piling up samples when /proc is slow to read
+        if (sampling || stopped) return;
+        sampling = true;
+        sample()
+            .catch((err: Error) => log.debug('Failed to sample process tree', { rootPid, error: err.message }))
+            .finally(() => {
+                sampling = false;
+            });
+    }, RESOURCE_LIMITS_POLL_INTERVAL);
+
+    return () => {
+        stopped = true;
+        clearInterval(interval);
+    };
+};
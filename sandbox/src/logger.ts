@@ -0,0 +1,47 @@
+// Actor logger that keeps secrets out of log lines
+// Redaction happens before formatting: the message and all strings in the data and the exception are redacted,
+// so secrets never reach stdout of the Actor (and thus the Apify Console logs)
+import type { LogLevel } from 'apify';
+import { LoggerText } from 'apify';
+
+/**
+ * Redact the strings in log data or a logged exception
+ * Log hands both over as plain objects (exceptions marked by a symbol key, which is kept); values with toJSON()
+ * (e.g. dates) are replaced by it, as JSON.stringify would do when formatting them
+ */
+const redactData = (value: unknown, redact: (text: string) => string): unknown => {
+    if (typeof value === 'string') return redact(value);
+    if (Array.isArray(value)) return value.map((item) => redactData(item, redact));
+    if (!value || typeof value !== 'object') return value;
+
+    const { toJSON } = value as { toJSON?: () => unknown };
+    if (typeof toJSON === 'function') return redactData(toJSON.call(value), redact);
+
+    const redacted: Record<string | symbol, unknown> = {};
+    for (const key of Reflect.ownKeys(value)) {
+        if (!Object.prototype.propertyIsEnumerable.call(value, key)) continue;
+        const item = redactData((value as Record<string | symbol, unknown>)[key], redact);
+        redacted[typeof key === 'string' ? redact(key) : key] = item;
+    }
+    return redacted;
+};
+
+/**
+ * Text logger that redacts every message with its data and exception before it is formatted
+ */
+export class RedactingLogger extends LoggerText {
+    constructor(private readonly redact: (text: string) => string) {
+        super();
+    }
+
+    override log(level: LogLevel, message: string, ...args: unknown[]): void {
+        const [data, exception, ...rest] = args;
+        super.log(
+            level,
+            this.redact(message),
+            redactData(data, this.redact),
+            redactData(exception, this.redact),
+            ...rest,
+        );
+    }
+}
@@ -10,26 +10,70 @@ import { Actor, log } from 'apify';
 import type { Request, Response } from 'express';
 import express from 'express';
 import httpProxy from 'http-proxy';
+import { WebSocketServer } from 'ws';
 
 import { SANDBOX_DIR } from './consts.js';
-import { executeInitScript, setupExecutionEnvironment } from './environment.js';
+import type { CheckRequest } from './diagnostics.js';
+import { prepareCheck, runCheck, validateCheckRequest } from './diagnostics.js';
+import type { EditRequest } from './edits.js';
+import { validateEditRequest } from './edits.js';
+import { executeInitScript, setupExecutionEnvironment, validateEnvironmentOverrides } from './environment.js';
+import { getJob, killJob, listJobs, readJobOutput, startJob } from './jobs.js';
+import {
+    createKernel,
+    deleteKernel,
+    executeInKernel,
+    getKernel,
+    interruptKernel,
+    listKernels,
+    restartKernel,
+} from './kernels.js';
+import { setDefaultLimits, validateLimits } from './limits.js';
 import { createMcpServer } from './mcp.js';
+import { getEgressEnvironment, getNetworkLog, setEgressPolicy, validateEgressPolicy } from './network.js';
+import type { ListOptions } from './operations.js';
 import {
     appendFile,
+    copyPath,
     createDirectory,
     createZipArchive,
+    decodeStdin,
     deleteFileOrDirectory,
+    editFile,
     executeCode,
+    executeFile,
+    getFileETag,
     listFilesDetailed,
-    readFileBinary,
+    lockPath,
+    lockPaths,
+    movePath,
+    resolveExecutableFile,
     runCommand,
     statPath,
+    validateListOptions,
     writeFileBinary,
 } from './operations.js';
 import { initializePersistence, restoreMigrationState, saveMigrationState } from './persistence.js';
+import { checkCommandPolicy, isDefaultDeny, setCommandPolicy, validateCommandPolicy } from './policy.js';
+import { handlePtyConnection } from './pty.js';
+import {
+    buildRuntimeCommand,
+    getSupportedLanguages,
+    listRuntimes,
+    registerRuntimes,
+    resolveRuntime,
+} from './runtimes.js';
+import type { SearchRequest } from './search.js';
+import { searchFiles, validateSearchRequest } from './search.js';
+import { initializeSecrets, validateSecrets } from './secrets.js';
+import type { StepsOptions } from './steps.js';
+import { checkStepsPolicy, runSteps, validateSteps } from './steps.js';
 import { getLandingPageHTML, getLLMsMarkdown } from './templates/landing.js';
 import { SANDBOX_BASHRC, WELCOME_SCRIPT } from './templates/shell.js';
-import type { ActorInput } from './types.js';
+import type { TestRunRequest } from './testing.js';
+import { prepareTestRun, runTests, validateTestRequest } from './testing.js';
+import type { ActorInput, ExecutionOptions } from './types.js';
+import { getUserEnvironment, getUserSpawnOptions, initializeSandboxUser } from './user.js';
 
 // Track initialization state
 let initializationComplete = false;
@@ -53,13 +97,46 @@ const serverUrl = process.env.ACTOR_WEB_SERVER_URL || `http://localhost:${port}`
 
 // Retrieve Actor input
 const input = await Actor.getInput<ActorInput>();
+
+// Initialize secrets first, so they are redacted from all subsequent logs
+const secretsError = validateSecrets(input?.secrets);
+if (secretsError) {
+    log.error('Ignoring invalid secrets input', { error: secretsError });
+} else {
+    await initializeSecrets(input?.secrets ?? undefined);
+}
 log.info('Actor input retrieved', {
     mode: isLocalMode ? 'local' : 'production',
     hasNodeDependencies: !!input?.nodeDependencies && Object.keys(input.nodeDependencies).length > 0,
     hasPythonRequirements: !!input?.pythonRequirementsTxt?.trim().length,
     hasInitScript: !!input?.initShellScript?.trim().length,
+    secretsCount: secretsError ? 0 : Object.keys(input?.secrets ?? {}).length,
 });
 
+// Apply default execution limits (invalid limits are ignored rather than failing the run)
+const executionLimitsError = validateLimits(input?.executionLimits);
+if (executionLimitsError) {
+    log.warning('Ignoring invalid executionLimits input', { error: executionLimitsError });
+} else {
+    setDefaultLimits(input?.executionLimits);
+}
+
+// Register custom language runtimes (invalid definitions are skipped)
+if (Array.isArray(input?.runtimes)) {
+    registerRuntimes(input.runtimes);
+} else if (input?.runtimes) {
+    log.warning('Ignoring invalid runtimes input: must be an array');
+}
+
+// Apply the command policy; an invalid policy denies all executions rather than silently allowing everything
+const commandPolicyError = validateCommandPolicy(input?.commandPolicy);
+if (commandPolicyError) {
+    log.error('Invalid commandPolicy input, denying all executions', { error: commandPolicyError });
+    setCommandPolicy({ defaultAction: 'deny' });
+} else {
+    setCommandPolicy(input?.commandPolicy ?? undefined);
+}
+
 // Check for migration state and restore if available
 let restoredFromMigration = false;
 if (!isLocalMode) {
@@ -134,6 +211,32 @@ if (!isLocalMode) {
     }
 }
 
+// Drop privileges for executions once everything that needs root has run; if that fails, deny all executions
+// and disable interactive shells (PTY sessions and ttyd) rather than silently running user code as root
+let sandboxUserSetupFailed = false;
+if (input?.runAsSandboxUser) {
+    try {
+        await initializeSandboxUser();
+    } catch (err) {
+        log.error('Failed to set up the sandbox user, denying all executions', { error: (err as Error).message });
+        setCommandPolicy({ defaultAction: 'deny' });
+        sandboxUserSetupFailed = true;
+        initializationError = `Sandbox user setup failed: ${(err as Error).message}`;
+    }
+}
+
+// Restrict outbound network access of executions; dependency installs and the init script above are not restricted
+const egressPolicyError = validateEgressPolicy(input?.egressPolicy);
+if (egressPolicyError) {
+    log.error('Invalid egressPolicy input, denying all outbound connections', { error: egressPolicyError });
+}
+try {
+    await setEgressPolicy(egressPolicyError ? { mode: 'denyAll' } : (input?.egressPolicy ?? undefined));
+} catch (err) {
+    log.error('Failed to start the egress proxy, outbound connections will fail', { error: (err as Error).message });
+    initializationError = `Egress policy setup failed: ${(err as Error).message}`;
+}
+
 // Initialize persistence system (create startup marker for tracking changes)
 if (!isLocalMode && !restoredFromMigration) {
     try {
@@ -182,24 +285,26 @@ const server = createServer(app);
 // ============================================================================
 
 /**
- * Normalize language aliases to canonical form
- * @param lang - Language string (optional)
- * @returns Normalized language or null if invalid/not provided
+ * Write a single Server-Sent Event to the response
+ * @param res - Response with SSE headers already sent
+ * @param event - Event name
+ * @param data - JSON-serializable event payload
  */
-const normalizeLanguage = (lang?: string): 'js' | 'ts' | 'py' | 'shell' | null => {
-    if (!lang) return null;
-    const lower = lang.toLowerCase();
-    const mapping: Record<string, 'js' | 'ts' | 'py' | 'shell'> = {
-        js: 'js',
-        javascript: 'js',
-        ts: 'ts',
-        typescript: 'ts',
-        py: 'py',
-        python: 'py',
-        bash: 'shell',
-        sh: 'shell',
-    };
-    return mapping[lower] || null;
+const writeSseEvent = (res: Response, event: string, data: unknown) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+};
+
+/**
+ * Send the headers of a Server-Sent Events response
+ * @param res - Response to switch to SSE
+ */
+const startSseStream = (res: Response) => {
+    res.status(200);
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no');
+    res.flushHeaders();
 };
 
 // ============================================================================
@@ -207,6 +312,71 @@ const normalizeLanguage = (lang?: string): 'js' | 'ts' | 'py' | 'shell' | null =
 // IMPORTANT: These MUST come before app.use(express.json()) to handle raw bodies
 // ============================================================================
 
+/**
+ * Evaluate If-Match and If-None-Match of a modifying /fs request against the current file
+ * Files are compared by their ETag (see getFileETag); directories exist but have no ETag, so they only match "*"
+ * Callers hold the lock of the path (lockPath) until the change is written, so no other request can change the file
+ * between the check and the write
+ * @returns Error and current ETag for a 412 response, or null if the request may proceed
+ */
+const checkWritePreconditions = async (
+    req: Request,
+    filePath: string,
+): Promise<{ error: string; etag?: string } | null> => {
+    const ifMatch = req.get('If-Match')?.trim();
+    const ifNoneMatch = req.get('If-None-Match')?.trim();
+    if (!ifMatch && !ifNoneMatch) return null;
+
+    const { exists } = await statPath(filePath);
+    const etag = await getFileETag(filePath);
+    // If-Match uses the strong comparison, where weak validators never match (a weak ETag of a large file only
+    // reflects size and modification time), If-None-Match the weak one (W/ prefixes are ignored)
+    const matchesTag = (tag: string, weak: boolean): boolean => {
+        if (weak) return tag.replace(/^W\//, '') === etag?.replace(/^W\//, '');
+        return !tag.startsWith('W/') && !etag?.startsWith('W/') && tag === etag;
+    };
+    const matchesAny = (header: string, weak: boolean): boolean =>
+        header === '*' ? exists : header.split(',').some((tag) => matchesTag(tag.trim(), weak));
+
+    if (ifMatch && !matchesAny(ifMatch, false)) {
+        return {
+            error: exists ? `${filePath} was modified (If-Match does not match)` : `${filePath} does not exist`,
+            etag,
+        };
+    }
+    if (ifNoneMatch && matchesAny(ifNoneMatch, true)) {
+        return {
+            error: ifNoneMatch === '*' ? `${filePath} already exists` : `${filePath} matches If-None-Match`,
+            etag,
+        };
+    }
+    return null;
+};
+
+/**
+ * Stream a file from the sandbox, without loading it into memory
+ * express sendFile answers Range requests (206 / 416), sets Last-Modified and Accept-Ranges, and replies 304 to a
+ * matching If-None-Match or If-Modified-Since; for HEAD requests it sends the headers only
+ * @param res - Response to send the file to
+ * @param resolvedPath - Absolute path validated to be inside the sandbox
+ * @param download - Whether to send the file as an attachment
+ */
+const sendSandboxFile = async (res: Response, resolvedPath: string, download = false): Promise<void> => {
+    if (download) res.attachment(resolvedPath);
+    // sendFile keeps an ETag that is already set and evaluates conditional requests against it
+    const etag = await getFileETag(resolvedPath);
+    if (etag) res.setHeader('ETag', etag);
+    await new Promise<void>((resolve) => {
+        res.sendFile(resolvedPath, { dotfiles: 'allow' }, (error) => {
+            if (error && !res.headersSent) {
+                const { statusCode = 500, message } = error as Error & { statusCode?: number };
+                res.status(statusCode).json({ error: message, path: resolvedPath });
+            }
+            resolve();
+        });
+    });
+};
+
 // HEAD /fs and /fs/ - Root directory metadata (must come before wildcard route)
 const handleHeadRoot = async (_req: Request, res: Response) => {
     try {
@@ -240,6 +410,27 @@ const handleHeadRoot = async (_req: Request, res: Response) => {
 app.head('/fs', handleHeadRoot);
 app.head('/fs/', handleHeadRoot);
 
+// Query parameter parsers: flags accept 1 or true, lists can be repeated (?include=a&include=b)
+const queryFlag = (value: unknown) => (value === undefined ? undefined : value === '1' || value === 'true');
+const queryInteger = (value: unknown) => (value === undefined ? undefined : Number(value));
+const queryString = (value: unknown) => (value === undefined ? undefined : String(value));
+const queryList = (value: unknown) => (value === undefined ? undefined : ([] as unknown[]).concat(value).map(String));
+
+/**
+ * Read directory listing options from GET /fs query parameters
+ */
+const parseListQuery = (query: Request['query']): ListOptions => ({
+    recursive: queryFlag(query.recursive),
+    depth: queryInteger(query.depth),
+    include: queryList(query.include),
+    exclude: queryList(query.exclude),
+    hidden: queryFlag(query.hidden),
+    gitignore: queryFlag(query.gitignore),
+    sort: queryString(query.sort),
+    limit: queryInteger(query.limit),
+    cursor: queryString(query.cursor),
+});
+
 // GET /fs and /fs/ - List root directory (must come before wildcard route)
 const handleGetRoot = async (req: Request, res: Response) => {
     try {
@@ -277,7 +468,13 @@ const handleGetRoot = async (req: Request, res: Response) => {
                 zipResult.stream.pipe(res);
             } else {
                 // Return JSON directory listing
-                const listResult = await listFilesDetailed(filePath);
+                const listOptions = parseListQuery(req.query);
+                const validationError = validateListOptions(listOptions);
+                if (validationError) {
+                    res.status(400).json({ error: validationError, path: filePath });
+                    return;
+                }
+                const listResult = await listFilesDetailed(filePath, listOptions);
 
                 if (listResult.error) {
                     log.warning('REST GET /fs (root) directory listing failed', {
@@ -328,16 +525,12 @@ app.head('/fs/*', async (req: Request, res: Response) => {
             res.setHeader('Last-Modified', result.mtime.toUTCString());
         }
 
-        if (result.type === 'file' && result.size !== undefined) {
-            res.setHeader('Content-Length', result.size.toString());
-            // Detect MIME type from file extension
-            const mimeResult = await readFileBinary(filePath);
-            if (mimeResult.mimeType) {
-                res.setHeader('Content-Type', mimeResult.mimeType);
-            }
-        }
-
         log.info('REST HEAD /fs/* completed successfully', { path: result.path, type: result.type });
+        if (result.type === 'file') {
+            // Content-Length, Content-Type, ETag and Accept-Ranges, as a GET would send them
+            await sendSandboxFile(res, result.path);
+            return;
+        }
         res.status(200).end();
     } catch (error) {
         log.error('REST HEAD /fs/* error', { error });
@@ -383,7 +576,13 @@ app.get('/fs/*', async (req: Request, res: Response) => {
                 zipResult.stream.pipe(res);
             } else {
                 // Return JSON directory listing
-                const listResult = await listFilesDetailed(filePath);
+                const listOptions = parseListQuery(req.query);
+                const validationError = validateListOptions(listOptions);
+                if (validationError) {
+                    res.status(400).json({ error: validationError, path: filePath });
+                    return;
+                }
+                const listResult = await listFilesDetailed(filePath, listOptions);
 
                 if (listResult.error) {
                     log.warning('REST GET /fs/* directory listing failed', { path: filePath, error: listResult.error });
@@ -398,30 +597,13 @@ app.get('/fs/*', async (req: Request, res: Response) => {
                 res.json(listResult);
             }
         } else {
-            // File: return raw bytes with appropriate Content-Type
-            const fileResult = await readFileBinary(filePath);
-
-            if (fileResult.error || !fileResult.content) {
-                log.warning('REST GET /fs/* file read failed', { path: filePath, error: fileResult.error });
-                res.status(404).json({ error: fileResult.error || 'Failed to read file', path: filePath });
-                return;
-            }
-
-            // Set Content-Type
-            res.setHeader('Content-Type', fileResult.mimeType || 'application/octet-stream');
-
-            // Set Content-Disposition for download
-            if (download) {
-                const fileName = filePath.split('/').filter(Boolean).pop() || 'file';
-                res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
-            }
-
-            log.info('REST GET /fs/* file read completed', {
-                path: fileResult.path,
-                size: fileResult.size,
-                mimeType: fileResult.mimeType,
+            // File: stream raw bytes, honoring Range and conditional request headers
+            log.info('REST GET /fs/* streaming file', {
+                path: statResult.path,
+                size: statResult.size,
+                range: req.headers.range,
             });
-            res.send(fileResult.content);
+            await sendSandboxFile(res, statResult.path, download);
         }
     } catch (error) {
         log.error('REST GET /fs/* error', { error });
@@ -432,6 +614,7 @@ app.get('/fs/*', async (req: Request, res: Response) => {
 
 // PUT /fs/* - Write/replace file
 app.put('/fs/*', express.raw({ type: '*/*', limit: '500mb' }), async (req: Request, res: Response) => {
+    let unlock: (() => void) | undefined;
     try {
         const filePath = req.params[0];
         const content = req.body;
@@ -454,6 +637,14 @@ app.put('/fs/*', express.raw({ type: '*/*', limit: '500mb' }), async (req: Reque
             return;
         }
 
+        unlock = await lockPath(filePath);
+        const precondition = await checkWritePreconditions(req, filePath);
+        if (precondition) {
+            log.info('REST PUT /fs/* precondition failed', { path: filePath, error: precondition.error });
+            res.status(412).json({ ...precondition, path: filePath });
+            return;
+        }
+
         const result = await writeFileBinary(filePath, content);
 
         if (!result.success) {
@@ -463,22 +654,40 @@ app.put('/fs/*', express.raw({ type: '*/*', limit: '500mb' }), async (req: Reque
         }
 
         log.info('REST PUT /fs/* completed successfully', { path: result.path, size: result.size });
+        const etag = await getFileETag(result.path);
+        if (etag) res.setHeader('ETag', etag);
         res.status(200).json({ success: true, path: result.path, size: result.size });
     } catch (error) {
         log.error('REST PUT /fs/* error', { error });
         const err = error as Error;
         res.status(500).json({ error: err.message });
+    } finally {
+        unlock?.();
     }
 });
 
-// POST /fs/* - Create directory or append to file
+/**
+ * Status codes of failed /fs moves and copies
+ */
+const TRANSFER_ERROR_STATUS = {
+    NOT_FOUND: 404,
+    ACCESS_DENIED: 403,
+    DESTINATION_EXISTS: 409,
+    INVALID_DESTINATION: 400,
+    RECURSIVE_REQUIRED: 400,
+};
+
+// POST /fs/* - Create directory, append to file, or move or copy a file or directory
 app.post('/fs/*', express.raw({ type: '*/*', limit: '500mb' }), async (req: Request, res: Response) => {
+    let unlock: (() => void) | undefined;
     try {
         const filePath = req.params[0];
         const mkdir = req.query.mkdir === '1';
         const append = req.query.append === '1';
+        const move = typeof req.query.move === 'string' ? req.query.move : undefined;
+        const copy = typeof req.query.copy === 'string' ? req.query.copy : undefined;
 
-        log.info('REST POST /fs/* request received', { path: filePath, mkdir, append });
+        log.info('REST POST /fs/* request received', { path: filePath, mkdir, append, move, copy });
 
         if (!filePath || filePath === '/') {
             log.warning('REST POST /fs/*: cannot operate on root directory');
@@ -486,19 +695,49 @@ app.post('/fs/*', express.raw({ type: '*/*', limit: '500mb' }), async (req: Requ
             return;
         }
 
-        if (!mkdir && !append) {
-            log.warning('REST POST /fs/*: either mkdir=1 or append=1 query parameter is required');
-            res.status(400).json({ error: 'Either mkdir=1 or append=1 query parameter is required' });
+        const operationCount = [mkdir, append, move !== undefined, copy !== undefined].filter(Boolean).length;
+        if (operationCount === 0) {
+            log.warning('REST POST /fs/*: mkdir, append, move or copy query parameter is required');
+            res.status(400).json({
+                error: 'Either mkdir=1, append=1, move=<destination> or copy=<destination> query parameter is required',
+            });
+            return;
+        }
+
+        if (operationCount > 1) {
+            log.warning('REST POST /fs/*: cannot combine mkdir, append, move and copy');
+            res.status(400).json({ error: 'Use only one of mkdir=1, append=1, move and copy' });
             return;
         }
 
-        if (mkdir && append) {
-            log.warning('REST POST /fs/*: cannot use both mkdir and append');
-            res.status(400).json({ error: 'Cannot use both mkdir=1 and append=1' });
+        // A move or copy also changes the destination, so it holds the locks of both paths
+        const destination = move ?? copy;
+        unlock = destination !== undefined ? await lockPaths([filePath, destination]) : await lockPath(filePath);
+        const precondition = await checkWritePreconditions(req, filePath);
+        if (precondition) {
+            log.info('REST POST /fs/* precondition failed', { path: filePath, error: precondition.error });
+            res.status(412).json({ ...precondition, path: filePath });
             return;
         }
 
-        if (mkdir) {
+        if (move !== undefined || copy !== undefined) {
+            // Move or copy to the destination path
+            const options = { overwrite: req.query.overwrite === '1', recursive: req.query.recursive === '1' };
+            const result =
+                move !== undefined
+                    ? await movePath(filePath, move, options)
+                    : await copyPath(filePath, copy ?? '', options);
+
+            if (!result.success) {
+                log.warning('REST POST /fs/* move/copy failed', { path: filePath, error: result.error });
+                const status = result.code ? TRANSFER_ERROR_STATUS[result.code] : 500;
+                res.status(status).json({ error: result.error, path: filePath, code: result.code });
+                return;
+            }
+
+            log.info('REST POST /fs/* move/copy completed successfully', { source: result.source, path: result.path });
+            res.status(move !== undefined ? 200 : 201).json(result);
+        } else if (mkdir) {
             // Create directory
             const result = await createDirectory(filePath);
 
@@ -529,17 +768,85 @@ app.post('/fs/*', express.raw({ type: '*/*', limit: '500mb' }), async (req: Requ
             }
 
             log.info('REST POST /fs/* append completed successfully', { path: result.path, size: result.size });
+            const etag = await getFileETag(result.path);
+            if (etag) res.setHeader('ETag', etag);
             res.status(200).json({ success: true, path: result.path, size: result.size });
         }
     } catch (error) {
         log.error('REST POST /fs/* error', { error });
         const err = error as Error;
         res.status(500).json({ error: err.message });
+    } finally {
+        unlock?.();
     }
 });
 
+/**
+ * Status codes of failed /fs edits
+ */
+const EDIT_ERROR_STATUS = { NOT_FOUND: 404, HASH_MISMATCH: 412, EDIT_FAILED: 409 };
+
+// PATCH /fs/* - Edit file with search/replace edits or a unified diff
+// JSON body { edits } or { diff }, or the diff itself as a text/x-diff or text/x-patch body
+app.patch(
+    '/fs/*',
+    express.json({ limit: '50mb' }),
+    express.text({ type: ['text/x-diff', 'text/x-patch'], limit: '50mb' }),
+    async (req: Request, res: Response) => {
+        let unlock: (() => void) | undefined;
+        try {
+            const filePath = req.params[0];
+            const request = (typeof req.body === 'string' ? { diff: req.body } : (req.body ?? {})) as EditRequest;
+            const dryRun = req.query.dryRun === '1' || request.dryRun === true;
+
+            log.info('REST PATCH /fs/* request received', {
+                path: filePath,
+                edits: request.edits?.length,
+                diffLength: request.diff?.length,
+                dryRun,
+            });
+
+            const validationError = validateEditRequest(request);
+            if (validationError) {
+                res.status(400).json({ error: validationError, path: filePath });
+                return;
+            }
+
+            unlock = await lockPath(filePath);
+            const precondition = await checkWritePreconditions(req, filePath);
+            if (precondition) {
+                log.info('REST PATCH /fs/* precondition failed', { path: filePath, error: precondition.error });
+                res.status(412).json({ ...precondition, path: filePath });
+                return;
+            }
+
+            const result = await editFile(filePath, { ...request, dryRun });
+
+            if (!result.success) {
+                log.warning('REST PATCH /fs/* failed', { path: filePath, error: result.error, code: result.code });
+                const status = result.code ? EDIT_ERROR_STATUS[result.code] : 500;
+                const etag = await getFileETag(result.path);
+                res.status(status).json({ error: result.error, path: filePath, code: result.code, etag });
+                return;
+            }
+
+            log.info('REST PATCH /fs/* completed successfully', { path: result.path, changed: Boolean(result.diff) });
+            const etag = dryRun ? undefined : await getFileETag(result.path);
+            if (etag) res.setHeader('ETag', etag);
+            res.status(200).json({ success: true, path: result.path, diff: result.diff, dryRun });
+        } catch (error) {
+            log.error('REST PATCH /fs/* error', { error });
+            const err = error as Error;
+            res.status(500).json({ error: err.message });
+        } finally {
+            unlock?.();
+        }
+    },
+);
+
 // DELETE /fs/* - Delete file or directory
 app.delete('/fs/*', async (req: Request, res: Response) => {
+    let unlock: (() => void) | undefined;
     try {
         const filePath = req.params[0];
         const recursive = req.query.recursive === '1';
@@ -552,6 +859,14 @@ app.delete('/fs/*', async (req: Request, res: Response) => {
             return;
         }
 
+        unlock = await lockPath(filePath);
+        const precondition = await checkWritePreconditions(req, filePath);
+        if (precondition) {
+            log.info('REST DELETE /fs/* precondition failed', { path: filePath, error: precondition.error });
+            res.status(412).json({ ...precondition, path: filePath });
+            return;
+        }
+
         const result = await deleteFileOrDirectory(filePath, recursive);
 
         if (!result.success) {
@@ -573,6 +888,8 @@ app.delete('/fs/*', async (req: Request, res: Response) => {
         log.error('REST DELETE /fs/* error', { error });
         const err = error as Error;
         res.status(500).json({ error: err.message });
+    } finally {
+        unlock?.();
     }
 });
 
@@ -608,6 +925,26 @@ app.get('/llms.txt', (_req: Request, res: Response) => {
     res.send(getLLMsMarkdown({ serverUrl }));
 });
 
+// List language runtimes and their availability in this sandbox
+app.get('/runtimes', async (_req: Request, res: Response) => {
+    try {
+        const runtimes = await listRuntimes();
+        log.info('REST GET /runtimes completed', { count: runtimes.length });
+        res.json({ runtimes });
+    } catch (error) {
+        log.error('REST GET /runtimes error', { error });
+        const err = error as Error;
+        res.status(500).json({ error: err.message });
+    }
+});
+
+// Egress policy and outbound connection attempts it denied
+app.get('/network/log', (_req: Request, res: Response) => {
+    const networkLog = getNetworkLog();
+    log.info('REST GET /network/log completed', { mode: networkLog.mode, entries: networkLog.entries.length });
+    res.json(networkLog);
+});
+
 // Health check endpoint
 app.get('/health', (_req: Request, res: Response) => {
     if (!initializationComplete) {
@@ -659,49 +996,254 @@ app.post('/mcp', async (req: Request, res: Response) => {
     }
 });
 
+// Run a batch of steps (/exec with `steps`), one after another
+// Top-level language, cwd, timeoutSecs, env and limits are defaults for every step
+const handleExecSteps = async (req: Request, res: Response) => {
+    const { steps, onFailure, command, language, cwd, timeoutSecs, stream, env, limits } = req.body;
+    const streaming = stream === true || !!req.headers.accept?.includes('text/event-stream');
+
+    log.info('REST /exec steps request received', {
+        steps: Array.isArray(steps) ? steps.length : undefined,
+        onFailure,
+        streaming,
+    });
+
+    if (command !== undefined) {
+        res.status(400).json({ error: 'Use either command or steps, not both' });
+        return;
+    }
+    const defaults = { language, cwd, timeoutSecs, env, limits };
+    const stepsError = validateSteps(steps, defaults, onFailure);
+    if (stepsError) {
+        log.debug('REST /exec: invalid steps', { error: stepsError });
+        res.status(400).json({ error: stepsError });
+        return;
+    }
+
+    // All steps are checked up front, so a denied step does not leave the batch half done
+    const policyError = checkStepsPolicy(steps, defaults);
+    if (policyError) {
+        res.status(403).json({ error: policyError });
+        return;
+    }
+
+    // Terminate the running step and skip the rest if the client disconnects before the response is sent
+    const abortController = new AbortController();
+    res.on('close', () => {
+        if (!res.writableFinished) {
+            log.info('REST /exec client disconnected, terminating steps');
+            abortController.abort();
+        }
+    });
+
+    const options: StepsOptions = { onFailure, abortSignal: abortController.signal, captureArtifacts: true };
+    if (streaming) {
+        startSseStream(res);
+        options.onOutput = (chunk) => {
+            writeSseEvent(res, chunk.stream, { step: chunk.step, data: chunk.data, timestamp: chunk.timestamp });
+        };
+        options.onStepFinished = (result) => {
+            writeSseEvent(res, 'step', { ...result, timestamp: new Date().toISOString() });
+        };
+    }
+
+    try {
+        const result = await runSteps(steps, defaults, options);
+
+        if (streaming) {
+            const { steps: stepResults, ...summary } = result;
+            writeSseEvent(res, 'exit', {
+                ...summary,
+                statuses: stepResults.map((step) => step.status),
+                timestamp: new Date().toISOString(),
+            });
+            res.end();
+            return;
+        }
+
+        res.status(result.succeeded ? 200 : 500).json(result);
+    } catch (error) {
+        log.error('REST /exec steps error', { error });
+        const err = error as Error;
+        if (streaming) {
+            writeSseEvent(res, 'error', { error: err.message, timestamp: new Date().toISOString() });
+            res.end();
+            return;
+        }
+        res.status(500).json({ error: err.message });
+    }
+};
+
 // Execute shell command or code (unified endpoint)
+// Streams output as Server-Sent Events when `stream: true` is set or the client accepts text/event-stream
 app.post('/exec', async (req: Request, res: Response) => {
-    try {
-        const { command, language, cwd, timeoutSecs } = req.body;
+    if (req.body?.steps !== undefined) {
+        await handleExecSteps(req, res);
+        return;
+    }
 
-        log.info('REST /exec request received', { command: command?.substring(0, 100), language, cwd, timeoutSecs });
+    let streaming = false;
+    try {
+        const { command, file, args, language, cwd, timeoutSecs, stream, stdin, stdinEncoding, limits, env } = req.body;
+        streaming = stream === true || !!req.headers.accept?.includes('text/event-stream');
+
+        log.info('REST /exec request received', {
+            command: command?.substring(0, 100),
+            file,
+            args,
+            language,
+            cwd,
+            timeoutSecs,
+            streaming,
+            stdinLength: stdin?.length,
+            limits,
+            envKeys: env && typeof env === 'object' ? Object.keys(env) : undefined,
+        });
 
-        // Validate command is required
-        if (!command) {
+        // Validate command or file is required
+        if (!command && !file) {
             log.debug('REST /exec: command is required');
             res.status(400).json({
-                error: 'Command is required',
+                error: 'Command or file is required',
             });
             return;
         }
+        if (command && file) {
+            res.status(400).json({ error: 'Use either command or file, not both' });
+            return;
+        }
+        if (args !== undefined && (!Array.isArray(args) || args.some((arg) => typeof arg !== 'string'))) {
+            res.status(400).json({ error: 'args must be an array of strings' });
+            return;
+        }
 
-        // Normalize language aliases
-        const normalizedLang = normalizeLanguage(language);
+        // Resolve the language runtime (name or alias)
+        const runtime = language ? resolveRuntime(String(language)) : undefined;
 
         // Validate language if provided
-        if (language && !normalizedLang) {
+        if (language && !runtime) {
             log.debug('REST /exec: invalid language', { language });
             res.status(400).json({
-                error: `Invalid language: ${language}. Supported: js, javascript, ts, typescript, py, python, bash, sh`,
+                error: `Invalid language: ${language}. Supported: ${getSupportedLanguages().join(', ')}`,
             });
             return;
         }
 
+        // Resolve the script to run (language detected from the extension unless given)
+        const executable = file ? await resolveExecutableFile(String(file), language && String(language)) : undefined;
+        if (typeof executable === 'string') {
+            log.debug('REST /exec: invalid file', { file, error: executable });
+            res.status(400).json({ error: executable });
+            return;
+        }
+
+        // Validate and decode stdin
+        if (stdin !== undefined && typeof stdin !== 'string') {
+            res.status(400).json({ error: 'stdin must be a string' });
+            return;
+        }
+        if (stdinEncoding !== undefined && stdinEncoding !== 'utf8' && stdinEncoding !== 'base64') {
+            res.status(400).json({ error: `Invalid stdinEncoding: ${stdinEncoding}. Supported: utf8, base64` });
+            return;
+        }
+        const decodedStdin = stdin === undefined ? undefined : decodeStdin(stdin, stdinEncoding);
+        if (stdin !== undefined && decodedStdin === undefined) {
+            log.debug('REST /exec: invalid base64 stdin');
+            res.status(400).json({ error: 'stdin is not valid base64' });
+            return;
+        }
+
+        // Validate resource limits
+        const limitsError = validateLimits(limits);
+        if (limitsError) {
+            log.debug('REST /exec: invalid limits', { limits });
+            res.status(400).json({ error: limitsError });
+            return;
+        }
+
+        // Validate environment variable overrides
+        const envError = validateEnvironmentOverrides(env);
+        if (envError) {
+            log.debug('REST /exec: invalid env', { error: envError });
+            res.status(400).json({ error: envError });
+            return;
+        }
+
+        // Enforce the command policy (scripts are checked by the command line that runs them)
+        const policyError = executable
+            ? checkCommandPolicy({
+                  command: buildRuntimeCommand(executable.runtime, executable.path, args),
+                  language: executable.runtime.name,
+                  cwd,
+              })
+            : checkCommandPolicy({ command, language, cwd, args });
+        if (policyError) {
+            res.status(403).json({ error: policyError });
+            return;
+        }
+
         // Convert timeout from seconds to milliseconds
         const timeoutMs = timeoutSecs ? timeoutSecs * 1000 : undefined;
 
+        // Terminate the execution if the client disconnects before the response is sent
+        const abortController = new AbortController();
+        res.on('close', () => {
+            if (!res.writableFinished) {
+                log.info('REST /exec client disconnected, terminating execution');
+                abortController.abort();
+            }
+        });
+
+        // In streaming mode, forward every output chunk as its own event
+        const options: ExecutionOptions = {
+            stdin: decodedStdin,
+            limits,
+            env,
+            args,
+            abortSignal: abortController.signal,
+            // Only code and scripts run by a language runtime get an artifacts directory, shell commands do not
+            captureArtifacts: Boolean(executable ? !executable.runtime.inline : runtime && !runtime.inline),
+        };
+        if (streaming) {
+            startSseStream(res);
+
+            options.onOutput = (chunk) => {
+                writeSseEvent(res, chunk.stream, { data: chunk.data, timestamp: chunk.timestamp });
+            };
+        }
+
         let result;
 
         // Route to appropriate executor based on language
-        if (!normalizedLang || normalizedLang === 'shell') {
+        if (executable) {
+            log.debug('REST /exec: executing file', { path: executable.path, language: executable.runtime.name });
+            result = await executeFile(executable, timeoutMs, cwd, options);
+        } else if (!runtime || runtime.inline) {
             // Shell command execution
             log.debug('REST /exec: executing shell command', { cwd, timeoutMs });
-            result = await runCommand(command, cwd, timeoutMs);
+            result = await runCommand(command, cwd, timeoutMs, options);
             result = { ...result, language: 'shell' };
         } else {
-            // Code execution (js, ts, py)
-            log.debug('REST /exec: executing code', { language: normalizedLang, cwd, timeoutMs });
-            result = await executeCode(command, normalizedLang, timeoutMs, cwd);
+            // Code execution with the language runtime
+            log.debug('REST /exec: executing code', { language: runtime.name, cwd, timeoutMs });
+            result = await executeCode(command, runtime.name, timeoutMs, cwd, options);
+        }
+
+        if (streaming) {
+            log.info('REST /exec stream completed', { language: result.language, exitCode: result.exitCode });
+            writeSseEvent(res, 'exit', {
+                exitCode: result.exitCode,
+                durationMs: result.durationMs ?? 0,
+                timedOut: result.timedOut ?? false,
+                signal: result.signal ?? null,
+                limitExceeded: result.limitExceeded ?? null,
+                language: result.language,
+                artifacts: result.artifacts ?? [],
+                dependencies: 'dependencies' in result ? (result.dependencies ?? null) : null,
+                timestamp: new Date().toISOString(),
+            });
+            res.end();
+            return;
         }
 
         // Return appropriate status code
@@ -716,6 +1258,11 @@ app.post('/exec', async (req: Request, res: Response) => {
     } catch (error) {
         log.error('REST /exec error', { error });
         const err = error as Error;
+        if (streaming && res.headersSent) {
+            writeSseEvent(res, 'error', { error: err.message, timestamp: new Date().toISOString() });
+            res.end();
+            return;
+        }
         res.status(500).json({
             error: err.message,
             stdout: '',
@@ -726,6 +1273,400 @@ app.post('/exec', async (req: Request, res: Response) => {
     }
 });
 
+// ============================================================================
+// Test Runner (/test)
+// ============================================================================
+
+// Run pytest, jest or vitest and return structured results
+app.post('/test', async (req: Request, res: Response) => {
+    try {
+        const request = (req.body ?? {}) as TestRunRequest;
+
+        log.info('REST POST /test request received', {
+            framework: request.framework,
+            cwd: request.cwd,
+            paths: request.paths,
+            filter: request.filter,
+        });
+
+        const validationError = validateTestRequest(request);
+        if (validationError) {
+            res.status(400).json({ error: validationError });
+            return;
+        }
+
+        const run = await prepareTestRun(request);
+        if (typeof run === 'string') {
+            res.status(400).json({ error: run });
+            return;
+        }
+
+        const policyError = checkCommandPolicy({ command: run.command, cwd: run.cwd });
+        if (policyError) {
+            res.status(403).json({ error: policyError });
+            return;
+        }
+
+        // Terminate the test run if the client disconnects before the response is sent
+        const abortController = new AbortController();
+        res.on('close', () => {
+            if (!res.writableFinished) {
+                log.info('REST /test client disconnected, terminating test run');
+                abortController.abort();
+            }
+        });
+
+        const result = await runTests(run, request, { abortSignal: abortController.signal });
+
+        log.info('REST POST /test completed', { framework: result.framework, exitCode: result.exitCode });
+        // Failing tests are a regular result; 500 means the framework did not produce a report
+        res.status(result.reportError ? 500 : 200).json(result);
+    } catch (error) {
+        log.error('REST POST /test error', { error });
+        const err = error as Error;
+        res.status(500).json({ error: err.message });
+    }
+});
+
+// ============================================================================
+// Content Search (/search)
+// ============================================================================
+
+app.get('/search', async (req: Request, res: Response) => {
+    try {
+        const request: SearchRequest = {
+            query: queryString(req.query.query) ?? '',
+            literal: queryFlag(req.query.literal),
+            path: queryString(req.query.path),
+            include: queryList(req.query.include),
+            exclude: queryList(req.query.exclude),
+            hidden: queryFlag(req.query.hidden),
+            gitignore: queryFlag(req.query.gitignore),
+            caseSensitive: queryFlag(req.query.caseSensitive),
+            context: queryInteger(req.query.context),
+            maxResults: queryInteger(req.query.maxResults),
+        };
+
+        log.info('REST GET /search request received', { query: request.query, path: request.path });
+
+        const validationError = validateSearchRequest(request);
+        if (validationError) {
+            res.status(400).json({ error: validationError });
+            return;
+        }
+
+        const result = await searchFiles(request);
+        if (typeof result === 'string') {
+            res.status(result.startsWith('Access denied') ? 403 : 404).json({ error: result, path: request.path });
+            return;
+        }
+
+        log.info('REST GET /search completed', {
+            path: result.path,
+            matchCount: result.matches.length,
+            filesSearched: result.filesSearched,
+        });
+        res.json(result);
+    } catch (error) {
+        log.error('REST GET /search error', { error });
+        const err = error as Error;
+        res.status(500).json({ error: err.message });
+    }
+});
+
+// ============================================================================
+// Static Checks (/check)
+// ============================================================================
+
+// Type-check or lint code or files and return normalized diagnostics
+app.post('/check', async (req: Request, res: Response) => {
+    try {
+        const request = (req.body ?? {}) as CheckRequest;
+
+        log.info('REST POST /check request received', {
+            language: request.language,
+            cwd: request.cwd,
+            paths: request.paths,
+            tools: request.tools,
+            codeLength: request.code?.length,
+        });
+
+        const validationError = validateCheckRequest(request);
+        if (validationError) {
+            res.status(400).json({ error: validationError });
+            return;
+        }
+
+        const check = prepareCheck(request);
+        if (typeof check === 'string') {
+            res.status(400).json({ error: check });
+            return;
+        }
+
+        for (const { command } of check.commands) {
+            const policyError = checkCommandPolicy({ command, cwd: check.cwd });
+            if (policyError) {
+                res.status(403).json({ error: policyError });
+                return;
+            }
+        }
+
+        // Terminate the tools if the client disconnects before the response is sent
+        const abortController = new AbortController();
+        res.on('close', () => {
+            if (!res.writableFinished) {
+                log.info('REST /check client disconnected, terminating check');
+                abortController.abort();
+            }
+        });
+
+        const result = await runCheck(check, request, { abortSignal: abortController.signal });
+
+        log.info('REST POST /check completed', { language: result.language, ...result.summary });
+        // Diagnostics are a regular result; 500 means a tool did not run
+        res.status(result.tools.some((run) => run.error) ? 500 : 200).json(result);
+    } catch (error) {
+        log.error('REST POST /check error', { error });
+        const err = error as Error;
+        res.status(500).json({ error: err.message });
+    }
+});
+
+// ============================================================================
+// Background Jobs (/jobs)
+// ============================================================================
+
+// Start a long-running shell command in the background
+app.post('/jobs', (req: Request, res: Response) => {
+    try {
+        const { command, cwd, timeoutSecs } = req.body;
+
+        log.info('REST POST /jobs request received', { command: command?.substring(0, 100), cwd, timeoutSecs });
+
+        if (!command) {
+            log.debug('REST POST /jobs: command is required');
+            res.status(400).json({ error: 'Command is required' });
+            return;
+        }
+
+        const policyError = checkCommandPolicy({ command, cwd });
+        if (policyError) {
+            res.status(403).json({ error: policyError });
+            return;
+        }
+
+        const job = startJob(command, cwd, timeoutSecs ? timeoutSecs * 1000 : undefined);
+
+        log.info('REST POST /jobs started job', { id: job.id, pid: job.pid });
+        res.status(201).json(job);
+    } catch (error) {
+        log.error('REST POST /jobs error', { error });
+        const err = error as Error;
+        res.status(500).json({ error: err.message });
+    }
+});
+
+// List running and recently finished jobs
+app.get('/jobs', (_req: Request, res: Response) => {
+    res.json({ jobs: listJobs() });
+});
+
+// Get job status
+app.get('/jobs/:id', (req: Request, res: Response) => {
+    const job = getJob(req.params.id);
+
+    if (!job) {
+        log.debug('REST GET /jobs/:id: job not found', { id: req.params.id });
+        res.status(404).json({ error: 'Job not found', id: req.params.id });
+        return;
+    }
+
+    res.json(job);
+});
+
+// Read job output from a character offset (use nextOffset from the previous response to poll for new output)
+app.get('/jobs/:id/output', (req: Request, res: Response) => {
+    const offset = parseInt(String(req.query.offset ?? '0'), 10) || 0;
+    const result = readJobOutput(req.params.id, Math.max(offset, 0));
+
+    if (!result) {
+        log.debug('REST GET /jobs/:id/output: job not found', { id: req.params.id });
+        res.status(404).json({ error: 'Job not found', id: req.params.id });
+        return;
+    }
+
+    res.json(result);
+});
+
+// Kill a running job (including its child processes)
+app.delete('/jobs/:id', (req: Request, res: Response) => {
+    log.info('REST DELETE /jobs/:id request received', { id: req.params.id });
+    const job = killJob(req.params.id);
+
+    if (!job) {
+        log.debug('REST DELETE /jobs/:id: job not found', { id: req.params.id });
+        res.status(404).json({ error: 'Job not found', id: req.params.id });
+        return;
+    }
+
+    log.info('REST DELETE /jobs/:id completed', { id: job.id, status: job.status });
+    res.json(job);
+});
+
+// ============================================================================
+// Stateful REPL Kernels (/kernels)
+// ============================================================================
+
+// Start a persistent Python or Node.js kernel
+app.post('/kernels', (req: Request, res: Response) => {
+    try {
+        const { language, cwd, name } = req.body;
+
+        log.info('REST POST /kernels request received', { language, cwd, name });
+
+        const kernelLanguage = language ? resolveRuntime(String(language))?.name : undefined;
+        if (kernelLanguage !== 'py' && kernelLanguage !== 'js') {
+            log.debug('REST POST /kernels: invalid language', { language });
+            res.status(400).json({
+                error: `Invalid kernel language: ${language}. Supported: js, javascript, py, python`,
+            });
+            return;
+        }
+
+        const result = createKernel(kernelLanguage, cwd, name);
+        if ('error' in result) {
+            log.debug('REST POST /kernels: kernel not created', { error: result.error });
+            const status = { INVALID_NAME: 400, INVALID_CWD: 400, NAME_IN_USE: 409, KERNEL_LIMIT: 429 }[result.code];
+            res.status(status).json({ error: result.error, code: result.code });
+            return;
+        }
+
+        const { kernel } = result;
+        log.info('REST POST /kernels started kernel', { id: kernel.id, name: kernel.name, language: kernel.language });
+        res.status(201).json(kernel);
+    } catch (error) {
+        log.error('REST POST /kernels error', { error });
+        const err = error as Error;
+        res.status(500).json({ error: err.message });
+    }
+});
+
+// List kernels
+app.get('/kernels', (_req: Request, res: Response) => {
+    res.json({ kernels: listKernels() });
+});
+
+// Get kernel status
+app.get('/kernels/:id', (req: Request, res: Response) => {
+    const kernel = getKernel(req.params.id);
+
+    if (!kernel) {
+        log.debug('REST GET /kernels/:id: kernel not found', { id: req.params.id });
+        res.status(404).json({ error: 'Kernel not found', id: req.params.id });
+        return;
+    }
+
+    res.json(kernel);
+});
+
+// Execute code in a kernel (variables persist between executions)
+app.post('/kernels/:id/execute', async (req: Request, res: Response) => {
+    try {
+        const { code, timeoutSecs } = req.body;
+
+        log.info('REST POST /kernels/:id/execute request received', {
+            id: req.params.id,
+            codeLength: code?.length,
+            timeoutSecs,
+        });
+
+        if (!code) {
+            log.debug('REST POST /kernels/:id/execute: code is required');
+            res.status(400).json({ error: 'Code is required' });
+            return;
+        }
+
+        const kernel = getKernel(req.params.id);
+        const policyError = kernel && checkCommandPolicy({ command: code, language: kernel.language, cwd: kernel.cwd });
+        if (policyError) {
+            res.status(403).json({ error: policyError, id: req.params.id });
+            return;
+        }
+
+        let result;
+        try {
+            result = await executeInKernel(req.params.id, code, timeoutSecs ? timeoutSecs * 1000 : undefined);
+        } catch (error) {
+            // Kernel is busy or dead
+            const err = error as Error;
+            log.debug('REST POST /kernels/:id/execute: kernel unavailable', { id: req.params.id, error: err.message });
+            res.status(409).json({ error: err.message, id: req.params.id });
+            return;
+        }
+
+        if (!result) {
+            log.debug('REST POST /kernels/:id/execute: kernel not found', { id: req.params.id });
+            res.status(404).json({ error: 'Kernel not found', id: req.params.id });
+            return;
+        }
+
+        if (result.error) {
+            log.debug('REST POST /kernels/:id/execute completed with error', {
+                id: req.params.id,
+                error: result.error,
+            });
+            res.status(500).json(result);
+            return;
+        }
+
+        log.info('REST POST /kernels/:id/execute completed successfully', { id: req.params.id });
+        res.json(result);
+    } catch (error) {
+        log.error('REST POST /kernels/:id/execute error', { error });
+        const err = error as Error;
+        res.status(500).json({ error: err.message });
+    }
+});
+
+// Interrupt the running execution (like Ctrl+C)
+app.post('/kernels/:id/interrupt', (req: Request, res: Response) => {
+    log.info('REST POST /kernels/:id/interrupt request received', { id: req.params.id });
+    const kernel = interruptKernel(req.params.id);
+
+    if (!kernel) {
+        res.status(404).json({ error: 'Kernel not found', id: req.params.id });
+        return;
+    }
+
+    res.json(kernel);
+});
+
+// Restart a kernel, discarding all its state
+app.post('/kernels/:id/restart', (req: Request, res: Response) => {
+    log.info('REST POST /kernels/:id/restart request received', { id: req.params.id });
+    const kernel = restartKernel(req.params.id);
+
+    if (!kernel) {
+        res.status(404).json({ error: 'Kernel not found', id: req.params.id });
+        return;
+    }
+
+    res.json(kernel);
+});
+
+// Shut down and remove a kernel
+app.delete('/kernels/:id', (req: Request, res: Response) => {
+    log.info('REST DELETE /kernels/:id request received', { id: req.params.id });
+    const kernel = deleteKernel(req.params.id);
+
+    if (!kernel) {
+        res.status(404).json({ error: 'Kernel not found', id: req.params.id });
+        return;
+    }
+
+    res.json({ success: true, id: kernel.id, deleted: true });
+});
+
 // ============================================================================
 // Browser (noVNC) Implementation
 // ============================================================================
@@ -769,11 +1710,18 @@ const spawnTtyd = () => {
     log.info('Spawning ttyd process...', { port: shellPort });
 
     // Run ttyd with custom bashrc for better UX and environment alignment
-    const ttyd = spawn('ttyd', ['-p', shellPort.toString(), '-a', '-W', 'bash', '--rcfile', '/app/sandbox_bashrc'], {
-        stdio: 'ignore',
-        cwd: SANDBOX_DIR,
-        env: process.env,
-    });
+    // With runAsSandboxUser, ttyd drops to the sandbox user before starting shells
+    const { uid, gid } = getUserSpawnOptions();
+    const userArgs = uid === undefined ? [] : ['-u', String(uid), '-g', String(gid)];
+    const ttyd = spawn(
+        'ttyd',
+        ['-p', shellPort.toString(), ...userArgs, '-a', '-W', 'bash', '--rcfile', '/app/sandbox_bashrc'],
+        {
+            stdio: 'ignore',
+            cwd: SANDBOX_DIR,
+            env: { ...process.env, ...getUserEnvironment(), ...getEgressEnvironment() },
+        },
+    );
 
     ttyd.on('error', (err) => {
         log.error('Failed to start ttyd', { error: err.message });
@@ -785,7 +1733,9 @@ const spawnTtyd = () => {
     });
 };
 
-if (!isLocalMode) {
+if (sandboxUserSetupFailed) {
+    log.warning('Not starting ttyd: the sandbox user could not be set up');
+} else if (!isLocalMode) {
     spawnTtyd();
 }
 
@@ -794,7 +1744,7 @@ app.all('/shell*', (req, res) => {
     let path = req.url.replace(/^\/shell/, '') || '/';
     // Ensure path starts with / (handle query strings like ?arg=...)
     if (path.startsWith('?')) {
-        path = `/${  path}`;
+        path = `/${path}`;
     }
     const options = {
         hostname: '127.0.0.1',
@@ -839,7 +1789,7 @@ app.all('/browser*', (req, res) => {
     // Rewrite path: /browser/foo → /foo
     req.url = req.url.replace(/^\/browser/, '') || '/';
     if (req.url.startsWith('?')) {
-        req.url = `/${  req.url}`;
+        req.url = `/${req.url}`;
     }
 
     log.info('Proxying browser HTTP request', { url: req.url });
@@ -858,8 +1808,60 @@ const browserWsProxy = httpProxy.createProxyServer({
     ws: true,
 });
 
+// WebSocket server for interactive PTY sessions (no own HTTP server, upgrades are routed below)
+const ptyWss = new WebSocketServer({ noServer: true });
+ptyWss.on('connection', handlePtyConnection);
+
+/**
+ * Answer a WebSocket upgrade request with an HTTP error and close the connection
+ * The body is the same { error } JSON that the REST endpoints return
+ */
+const rejectUpgrade = (socket: Duplex, status: number, message: string) => {
+    const body = JSON.stringify({ error: message });
+    socket.end(
+        `HTTP/1.1 ${status} ${http.STATUS_CODES[status]}\r\nContent-Type: application/json\r\n` +
+            `Content-Length: ${Buffer.byteLength(body)}\r\nConnection: close\r\n\r\n${body}`,
+    );
+};
+
+/**
+ * Check the command of a /exec/pty request against the command policy
+ * @returns Error message if the command is denied, or null (also for interactive shells without a command)
+ */
+const checkPtyPolicy = (url: string): string | null => {
+    const { searchParams } = new URL(url, 'http://localhost');
+    const command = searchParams.get('command');
+    if (!command) return null;
+    return checkCommandPolicy({ command, cwd: searchParams.get('cwd') || undefined });
+};
+
 server.on('upgrade', (req, socket, head) => {
-    if (req.url?.startsWith('/shell')) {
+    const interactiveShell = req.url?.startsWith('/exec/pty') || req.url?.startsWith('/shell');
+    if (interactiveShell && sandboxUserSetupFailed) {
+        rejectUpgrade(socket as Duplex, 503, 'Interactive shells are disabled: the sandbox user could not be set up');
+    } else if (interactiveShell && isDefaultDeny()) {
+        // Commands typed into a shell cannot be checked against the policy
+        rejectUpgrade(
+            socket as Duplex,
+            403,
+            'Interactive shells are disabled by the command policy (defaultAction: deny)',
+        );
+    } else if (req.url?.startsWith('/exec/pty')) {
+        const policyError = checkPtyPolicy(req.url);
+        if (policyError) {
+            rejectUpgrade(socket as Duplex, 403, policyError);
+            return;
+        }
+
+        // Track activity on WebSocket data
+        socket.on('data', () => {
+            lastActivityAt = Date.now();
+        });
+
+        ptyWss.handleUpgrade(req, socket as Duplex, head, (ws) => {
+            ptyWss.emit('connection', ws, req);
+        });
+    } else if (req.url?.startsWith('/shell')) {
         req.url = req.url.replace(/^\/shell/, '') || '/';
         log.info('Proxying shell WebSocket upgrade', { url: req.url });
 
@@ -912,8 +1914,48 @@ server.listen(port, () => {
     console.log('🔧 Available REST Endpoints:');
     console.log(`   POST ${serverUrl}/exec`);
     console.log(`       Execute shell commands or code (JavaScript, TypeScript, Python)`);
-    console.log(`       Body: { command: string, language?: string, cwd?: string, timeoutSecs?: number }`);
-    console.log(`       Languages: js, javascript, ts, typescript, py, python, bash, sh (omit for shell)\n`);
+    console.log(
+        `       Body: { command: string, language?: string, cwd?: string, timeoutSecs?: number, stream?: boolean }`,
+    );
+    console.log(`       Languages: ${getSupportedLanguages().join(', ')} (omit for shell)`);
+    console.log(`       Set stream: true (or Accept: text/event-stream) to receive output as Server-Sent Events`);
+    console.log(
+        `       Send file: "/sandbox/path/script.ts" instead of command to run a script; args: [...] passes arguments`,
+    );
+    console.log(
+        `       Send steps: [{ command, language?, cwd?, timeoutSecs? }, ...] to run several commands in sequence\n`,
+    );
+
+    console.log(`   GET ${serverUrl}/runtimes`);
+    console.log(`       List language runtimes and whether they are installed in this sandbox\n`);
+
+    console.log(`   GET ${serverUrl}/network/log`);
+    console.log(`       Show the network egress policy and the outbound connections it denied\n`);
+
+    console.log(`   POST ${serverUrl}/test`);
+    console.log(`       Run pytest, jest or vitest and get suites and test cases as JSON`);
+    console.log(
+        `       Body: { framework?: "pytest" | "jest" | "vitest", cwd?: string, paths?: string[], filter?: string, args?: string[] }\n`,
+    );
+
+    console.log(`   POST ${serverUrl}/check`);
+    console.log(`       Type-check or lint code or files (tsc, ruff, pyright) and get diagnostics as JSON`);
+    console.log(
+        `       Body: { language?: "ts" | "js" | "py", code?: string, paths?: string[], tools?: string[], cwd?: string }\n`,
+    );
+    console.log(`   GET ${serverUrl}/search?query=...`);
+    console.log(`       Search file contents (regex or literal) and get matches with line, column and preview\n`);
+
+    console.log(`   POST ${serverUrl}/jobs`);
+    console.log(`       Start a long-running shell command in the background`);
+    console.log(`       Body: { command: string, cwd?: string, timeoutSecs?: number }`);
+    console.log(`       Manage with GET /jobs, GET /jobs/{id}, GET /jobs/{id}/output?offset=N, DELETE /jobs/{id}\n`);
+
+    console.log(`   POST ${serverUrl}/kernels`);
+    console.log(`       Start a stateful Python or Node.js kernel (variables persist between executions)`);
+    console.log(`       Body: { language: "py" | "js", cwd?: string }`);
+    console.log(`       Run code with POST /kernels/{id}/execute { code, timeoutSecs? }`);
+    console.log(`       Manage with POST /kernels/{id}/interrupt, POST /kernels/{id}/restart, DELETE /kernels/{id}\n`);
 
     console.log(`   GET ${serverUrl}/health`);
     console.log(`       Health check\n`);
@@ -1,117 +1,1084 @@
 // MCP Server implementation for sandbox tools (run commands, read/write files)
+import { promises as fs } from 'node:fs';
+import { join } from 'node:path';
+
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
-import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import type {
+    CallToolResult,
+    ImageContent,
+    ServerNotification,
+    ServerRequest,
+} from '@modelcontextprotocol/sdk/types.js';
 import { log } from 'apify';
 import * as z from 'zod';
 
-import { executeCode, listFiles, readFile, runCommand, writeFile } from './operations.js';
+import { ARTIFACTS_MAX_INLINE_IMAGE_BYTES } from './consts.js';
+import type { CheckRequest } from './diagnostics.js';
+import { prepareCheck, runCheck, validateCheckRequest } from './diagnostics.js';
+import type { EditRequest } from './edits.js';
+import { validateEditRequest } from './edits.js';
+import { validateEnvironmentOverrides } from './environment.js';
+import { killJob, readJobOutput, startJob } from './jobs.js';
+import { createKernel, deleteKernel, executeInKernel, getKernel, interruptKernel, restartKernel } from './kernels.js';
+import type { ListOptions, TransferOptions } from './operations.js';
+import {
+    copyPath,
+    decodeStdin,
+    editFile,
+    executeCode,
+    executeFile,
+    listFilesDetailed,
+    lockPath,
+    movePath,
+    readFile,
+    resolveExecutableFile,
+    runCommand,
+    validateListOptions,
+    writeFile,
+} from './operations.js';
+import { checkCommandPolicy } from './policy.js';
+import { buildRuntimeCommand, getSupportedLanguages, resolveRuntime } from './runtimes.js';
+import type { SearchRequest } from './search.js';
+import { searchFiles, validateSearchRequest } from './search.js';
+import type { ExecutionStep, StepDefaults, StepFailureMode } from './steps.js';
+import { checkStepsPolicy, runSteps, validateSteps } from './steps.js';
+import type { TestRunRequest } from './testing.js';
+import { prepareTestRun, runTests, validateTestRequest } from './testing.js';
+import type { Artifact, ExecutionOptions, ResourceLimits } from './types.js';
+
+/**
+ * Resource limits of an execution
+ */
+const limitsSchema = z.object({
+    maxMemoryMb: z.number().min(0).optional().describe('Maximum resident memory in MB'),
+    maxCpuSecs: z.number().min(0).optional().describe('Maximum CPU time in seconds'),
+    maxProcesses: z.number().min(0).optional().describe('Maximum number of processes'),
+    maxOutputBytes: z.number().min(0).optional().describe('Maximum stdout+stderr size in bytes'),
+});
+
+/**
+ * Environment variable overrides of an execution
+ */
+const envSchema = z.record(z.string(), z.string().nullable());
+
+/**
+ * Read image artifacts as MCP image content
+ * Images larger than ARTIFACTS_MAX_INLINE_IMAGE_BYTES are skipped, they stay available via their /fs link
+ */
+const getImageContent = async (artifacts: Artifact[]): Promise<ImageContent[]> => {
+    const images = artifacts.filter(
+        (artifact) => artifact.mimeType.startsWith('image/') && artifact.size <= ARTIFACTS_MAX_INLINE_IMAGE_BYTES,
+    );
+    const content = await Promise.all(
+        images.map(async (artifact): Promise<ImageContent | undefined> => {
+            try {
+                const data = await fs.readFile(artifact.path);
+                return { type: 'image', data: data.toString('base64'), mimeType: artifact.mimeType };
+            } catch (error) {
+                log.debug('Failed to read image artifact', { path: artifact.path, error: (error as Error).message });
+                return undefined;
+            }
+        }),
+    );
+    return content.filter((item): item is ImageContent => item !== undefined);
+};
+
+/**
+ * Convert a detailed listing to the list-files output: entries are returned as files[] with absolute paths, as in
+ * listings without options, and keep their details (size, mtime, mode, target)
+ */
+const toFileList = ({ entries, ...listing }: Awaited<ReturnType<typeof listFilesDetailed>>) => ({
+    ...listing,
+    files: entries.map((entry) => ({ ...entry, path: join(listing.path, entry.path) })),
+});
+
+/**
+ * Build execution options that report output chunks as MCP progress notifications
+ * Progress is only sent when the client asked for it by supplying a progress token
+ * @param extra - Request handler context of the tool call
+ * @returns Execution options (empty if no progress token was provided)
+ */
+const createProgressReporter = (extra: RequestHandlerExtra<ServerRequest, ServerNotification>): ExecutionOptions => {
+    const { _meta: meta } = extra;
+    const progressToken = meta?.progressToken;
+    if (progressToken === undefined) return {};
+
+    let progress = 0;
+    return {
+        onOutput: (chunk) => {
+            progress += 1;
+            extra
+                .sendNotification({
+                    method: 'notifications/progress',
+                    params: {
+                        progressToken,
+                        progress,
+                        message: JSON.stringify(chunk),
+                    },
+                })
+                .catch((err: Error) => {
+                    log.debug('Failed to send MCP progress notification', { error: err.message });
+                });
+        },
+    };
+};
+
+/**
+ * Run the steps of a batch execute call
+ */
+const executeSteps = async (
+    steps: ExecutionStep[],
+    defaults: StepDefaults,
+    onFailure: StepFailureMode | undefined,
+    extra: RequestHandlerExtra<ServerRequest, ServerNotification>,
+): Promise<CallToolResult> => {
+    log.info('MCP execute tool called with steps', { steps: steps.length, onFailure });
+
+    const error = validateSteps(steps, defaults, onFailure) ?? checkStepsPolicy(steps, defaults);
+    if (error) {
+        return { content: [{ type: 'text', text: error }], isError: true };
+    }
+
+    const result = await runSteps(steps, defaults, {
+        ...createProgressReporter(extra),
+        onFailure,
+        abortSignal: extra.signal,
+        captureArtifacts: true,
+    });
+
+    return {
+        content: [
+            { type: 'text', text: JSON.stringify(result, null, 2) },
+            ...(await getImageContent(result.steps.flatMap((step) => step.artifacts ?? []))),
+        ],
+        isError: !result.succeeded,
+    };
+};
+
+/**
+ * Creates and configures the MCP server with all sandbox tools
+ */
+export const createMcpServer = () => {
+    const server = new McpServer(
+        {
+            name: 'apify-ai-sandbox',
+            version: '1.0.0',
+        },
+        {
+            capabilities: {
+                tools: {},
+            },
+        },
+    );
+
+    // Register execute tool (unified shell and code execution)
+    server.registerTool(
+        'execute',
+        {
+            description:
+                'Executes shell commands, code snippets (JavaScript, TypeScript, Python) or script files from /sandbox, with optional program arguments. Each code execution is isolated in a new process. Packages declared in PEP 723 inline script metadata (Python) or the same // block (JS/TS) are installed before the code runs and reported in dependencies. Output chunks are streamed as progress notifications when a progress token is provided.',
+            inputSchema: {
+                command: z
+                    .string()
+                    .optional()
+                    .describe('Shell command or code snippet to execute (omit with file or steps)'),
+                file: z
+                    .string()
+                    .optional()
+                    .describe(
+                        'Script in /sandbox to run instead of command (e.g. /sandbox/js-ts/scripts/migrate.ts); the language is detected from the extension unless given',
+                    ),
+                args: z
+                    .array(z.string())
+                    .optional()
+                    .describe('Program arguments for the code or file ($1, $2, ... for shell commands)'),
+                language: z
+                    .string()
+                    .optional()
+                    .describe(`Language: ${getSupportedLanguages().join(', ')} (omit for shell)`),
+                cwd: z.string().optional().describe('Working directory (overrides language defaults)'),
+                timeoutSecs: z.number().optional().describe('Timeout in seconds'),
+                stdin: z.string().optional().describe('Data piped to standard input (closed afterwards)'),
+                stdinEncoding: z
+                    .enum(['utf8', 'base64'])
+                    .optional()
+                    .describe('Encoding of stdin: utf8 (default) or base64 for binary data'),
+                limits: limitsSchema
+                    .optional()
+                    .describe('Resource limits overriding the sandbox defaults (0 disables a limit)'),
+                env: envSchema
+                    .optional()
+                    .describe('Environment variables for this execution (null unsets an inherited variable)'),
+                steps: z
+                    .array(
+                        z.object({
+                            name: z.string().optional().describe('Label of the step in the results'),
+                            command: z.string().describe('Shell command or code snippet'),
+                            language: z.string().optional().describe('Language (defaults to the top-level language)'),
+                            cwd: z.string().optional().describe('Working directory'),
+                            timeoutSecs: z.number().optional().describe('Timeout in seconds'),
+                            stdin: z.string().optional().describe('Data piped to standard input'),
+                            stdinEncoding: z.enum(['utf8', 'base64']).optional().describe('Encoding of stdin'),
+                            limits: limitsSchema.optional().describe('Resource limits for this step'),
+                            env: envSchema.optional().describe('Environment variables for this step'),
+                        }),
+                    )
+                    .optional()
+                    .describe(
+                        'Run several commands one after another instead of a single command (e.g. install, build, test). Top-level language, cwd, timeoutSecs, limits and env apply to every step unless the step overrides them',
+                    ),
+                onFailure: z
+                    .enum(['stop', 'continue'])
+                    .optional()
+                    .describe(
+                        'With steps: stop (default) skips the remaining steps after a failure, continue runs all',
+                    ),
+            },
+        },
+        async (
+            {
+                command,
+                file,
+                args,
+                language,
+                cwd,
+                timeoutSecs,
+                stdin,
+                stdinEncoding,
+                limits,
+                env,
+                steps,
+                onFailure,
+            }: {
+                command?: string;
+                file?: string;
+                args?: string[];
+                language?: string;
+                cwd?: string;
+                timeoutSecs?: number;
+                stdin?: string;
+                stdinEncoding?: 'utf8' | 'base64';
+                limits?: ResourceLimits;
+                env?: Record<string, string | null>;
+                steps?: ExecutionStep[];
+                onFailure?: StepFailureMode;
+            },
+            extra,
+        ): Promise<CallToolResult> => {
+            try {
+                if (steps) {
+                    if (command !== undefined) {
+                        return {
+                            content: [{ type: 'text', text: 'Use either command or steps, not both' }],
+                            isError: true,
+                        };
+                    }
+                    return await executeSteps(steps, { language, cwd, timeoutSecs, limits, env }, onFailure, extra);
+                }
+                if (!command && !file) {
+                    return {
+                        content: [{ type: 'text', text: 'command, file or steps is required' }],
+                        isError: true,
+                    };
+                }
+                if (command && file) {
+                    return { content: [{ type: 'text', text: 'Use either command or file, not both' }], isError: true };
+                }
+
+                log.info('MCP execute tool called', {
+                    language,
+                    commandLength: command?.length,
+                    file,
+                    args,
+                    cwd,
+                    timeoutSecs,
+                    stdinLength: stdin?.length,
+                    limits,
+                    envKeys: env ? Object.keys(env) : undefined,
+                });
+
+                // Resolve the language runtime (name or alias)
+                const runtime = language ? resolveRuntime(language) : undefined;
+
+                // Validate language
+                if (language && !runtime) {
+                    log.warning('MCP execute tool: invalid language', { language });
+                    return {
+                        content: [
+                            {
+                                type: 'text',
+                                text: `Invalid language: ${language}. Supported: ${getSupportedLanguages().join(', ')}`,
+                            },
+                        ],
+                        isError: true,
+                    };
+                }
+
+                // Convert timeout from seconds to milliseconds
+                const timeoutMs = timeoutSecs ? timeoutSecs * 1000 : undefined;
+
+                const decodedStdin = stdin === undefined ? undefined : decodeStdin(stdin, stdinEncoding);
+                if (stdin !== undefined && decodedStdin === undefined) {
+                    return {
+                        content: [{ type: 'text', text: 'stdin is not valid base64' }],
+                        isError: true,
+                    };
+                }
+
+                const envError = validateEnvironmentOverrides(env);
+                if (envError) {
+                    return {
+                        content: [{ type: 'text', text: envError }],
+                        isError: true,
+                    };
+                }
+
+                // Resolve the script to run (language detected from the extension unless given)
+                const executable = file ? await resolveExecutableFile(file, language) : undefined;
+                if (typeof executable === 'string') {
+                    return { content: [{ type: 'text', text: executable }], isError: true };
+                }
+
+                // Scripts are checked by the command line that runs them
+                const policyError = executable
+                    ? checkCommandPolicy({
+                          command: buildRuntimeCommand(executable.runtime, executable.path, args),
+                          language: executable.runtime.name,
+                          cwd,
+                      })
+                    : checkCommandPolicy({ command: command ?? '', language, cwd, args });
+                if (policyError) {
+                    return {
+                        content: [{ type: 'text', text: policyError }],
+                        isError: true,
+                    };
+                }
+
+                // Stream output chunks as progress notifications if requested
+                const options: ExecutionOptions = {
+                    ...createProgressReporter(extra),
+                    stdin: decodedStdin,
+                    limits,
+                    env,
+                    args,
+                    // Cancelled tool calls terminate the execution
+                    abortSignal: extra.signal,
+                    // Only code and scripts run by a language runtime get an artifacts directory, shell commands do not
+                    captureArtifacts: Boolean(executable ? !executable.runtime.inline : runtime && !runtime.inline),
+                };
+
+                let result;
+
+                // Route to appropriate executor
+                if (executable) {
+                    // Script from the sandbox
+                    result = await executeFile(executable, timeoutMs, cwd, options);
+                } else if (!runtime || runtime.inline) {
+                    // Shell command execution
+                    result = await runCommand(command ?? '', cwd, timeoutMs, options);
+                    result = { ...result, language: 'shell' };
+                } else {
+                    // Code execution
+                    result = await executeCode(command ?? '', runtime.name, timeoutMs, cwd, options);
+                }
+
+                log.info('MCP execute tool completed', {
+                    language: result.language,
+                    exitCode: result.exitCode,
+                    limitExceeded: result.limitExceeded,
+                    artifacts: result.artifacts?.length,
+                });
+
+                return {
+                    content: [
+                        {
+                            type: 'text',
+                            text: JSON.stringify(result, null, 2),
+                        },
+                        // Images (e.g. matplotlib figures) are returned inline so the model can see them
+                        ...(await getImageContent(result.artifacts ?? [])),
+                    ],
+                    isError: result.exitCode !== 0,
+                };
+            } catch (error) {
+                const err = error as Error;
+                log.error('MCP execute tool error', { error: err.message });
+                return {
+                    content: [
+                        {
+                            type: 'text',
+                            text: `Error executing: ${err.message}`,
+                        },
+                    ],
+                    isError: true,
+                };
+            }
+        },
+    );
+
+    // Register run_tests tool (structured test results)
+    server.registerTool(
+        'run_tests',
+        {
+            description:
+                'Runs tests with pytest, jest or vitest and returns structured results: a summary, suites and test cases with status (passed, failed, skipped, error), durations and failure messages. The framework is detected from the project if omitted; runs in /sandbox/py (pytest) or /sandbox/js-ts (jest, vitest) unless cwd is given.',
+            inputSchema: {
+                framework: z
+                    .enum(['pytest', 'jest', 'vitest'])
+                    .optional()
+                    .describe('Test framework (detected if omitted)'),
+                cwd: z.string().optional().describe('Project directory'),
+                paths: z.array(z.string()).optional().describe('Test files or directories to run (default: all)'),
+                filter: z
+                    .string()
+                    .optional()
+                    .describe('Only run matching tests (pytest -k expression, jest/vitest -t name pattern)'),
+                args: z.array(z.string()).optional().describe('Additional command line arguments for the framework'),
+                timeoutSecs: z.number().optional().describe('Timeout in seconds'),
+                limits: limitsSchema
+                    .optional()
+                    .describe('Resource limits overriding the sandbox defaults (0 disables a limit)'),
+                env: envSchema
+                    .optional()
+                    .describe('Environment variables for the test run (null unsets an inherited variable)'),
+            },
+        },
+        async (request: TestRunRequest, extra): Promise<CallToolResult> => {
+            try {
+                log.info('MCP run_tests tool called', {
+                    framework: request.framework,
+                    cwd: request.cwd,
+                    paths: request.paths,
+                    filter: request.filter,
+                });
+
+                const validationError = validateTestRequest(request);
+                if (validationError) {
+                    return { content: [{ type: 'text', text: validationError }], isError: true };
+                }
+
+                const run = await prepareTestRun(request);
+                if (typeof run === 'string') {
+                    return { content: [{ type: 'text', text: run }], isError: true };
+                }
+
+                const policyError = checkCommandPolicy({ command: run.command, cwd: run.cwd });
+                if (policyError) {
+                    return { content: [{ type: 'text', text: policyError }], isError: true };
+                }
+
+                const result = await runTests(run, request, {
+                    ...createProgressReporter(extra),
+                    abortSignal: extra.signal,
+                });
+
+                log.info('MCP run_tests tool completed', { framework: result.framework, exitCode: result.exitCode });
+                return {
+                    content: [
+                        {
+                            type: 'text',
+                            text: JSON.stringify(result, null, 2),
+                        },
+                    ],
+                    isError: !result.succeeded,
+                };
+            } catch (error) {
+                const err = error as Error;
+                log.error('MCP run_tests tool error', { error: err.message });
+                return {
+                    content: [
+                        {
+                            type: 'text',
+                            text: `Error running tests: ${err.message}`,
+                        },
+                    ],
+                    isError: true,
+                };
+            }
+        },
+    );
+
+    // Register check_code tool (type checking and linting)
+    server.registerTool(
+        'check_code',
+        {
+            description:
+                'Type-checks or lints code or files without running them: tsc for TypeScript/JavaScript, ruff and pyright for Python. Returns diagnostics with file, line, column, severity (error, warning, info), message and rule. Without code and paths, the project in cwd is checked.',
+            inputSchema: {
+                language: z.string().optional().describe('ts, js or py (detected from paths if omitted)'),
+                code: z.string().optional().describe('Code to check (omit with paths)'),
+                paths: z.array(z.string()).optional().describe('Files or directories to check'),
+                tools: z
+                    .array(z.enum(['tsc', 'ruff', 'pyright']))
+                    .optional()
+                    .describe('Tools to run (default: all tools for the language)'),
+                cwd: z.string().optional().describe('Project directory (defaults to /sandbox/js-ts or /sandbox/py)'),
+                timeoutSecs: z.number().optional().describe('Timeout in seconds per tool'),
+            },
+        },
+        async (request: CheckRequest, extra): Promise<CallToolResult> => {
+            try {
+                log.info('MCP check_code tool called', {
+                    language: request.language,
+                    cwd: request.cwd,
+                    paths: request.paths,
+                    tools: request.tools,
+                });
+
+                const validationError = validateCheckRequest(request);
+                if (validationError) {
+                    return { content: [{ type: 'text', text: validationError }], isError: true };
+                }
+
+                const check = prepareCheck(request);
+                if (typeof check === 'string') {
+                    return { content: [{ type: 'text', text: check }], isError: true };
+                }
+
+                for (const { command } of check.commands) {
+                    const policyError = checkCommandPolicy({ command, cwd: check.cwd });
+                    if (policyError) {
+                        return { content: [{ type: 'text', text: policyError }], isError: true };
+                    }
+                }
+
+                const result = await runCheck(check, request, { abortSignal: extra.signal });
+
+                log.info('MCP check_code tool completed', { language: result.language, ...result.summary });
+                return {
+                    content: [
+                        {
+                            type: 'text',
+                            text: JSON.stringify(result, null, 2),
+                        },
+                    ],
+                    isError: !result.succeeded,
+                };
+            } catch (error) {
+                const err = error as Error;
+                log.error('MCP check_code tool error', { error: err.message });
+                return {
+                    content: [
+                        {
+                            type: 'text',
+                            text: `Error checking code: ${err.message}`,
+                        },
+                    ],
+                    isError: true,
+                };
+            }
+        },
+    );
+
+    // Register start_job tool (background execution)
+    server.registerTool(
+        'start_job',
+        {
+            description:
+                'Starts a long-running shell command (dev server, watcher, test suite) in the background and returns its job ID immediately. Use get_job_output to poll output and status, and kill_job to stop it.',
+            inputSchema: {
+                command: z.string().describe('Shell command to run in the background'),
+                cwd: z.string().optional().describe('Working directory (defaults to /sandbox)'),
+                timeoutSecs: z.number().optional().describe('Kill the job after this many seconds'),
+            },
+        },
+        async ({
+            command,
+            cwd,
+            timeoutSecs,
+        }: {
+            command: string;
+            cwd?: string;
+            timeoutSecs?: number;
+        }): Promise<CallToolResult> => {
+            try {
+                log.info('MCP start_job tool called', { commandLength: command.length, cwd, timeoutSecs });
+
+                const policyError = checkCommandPolicy({ command, cwd });
+                if (policyError) {
+                    return { content: [{ type: 'text', text: policyError }], isError: true };
+                }
+
+                const job = startJob(command, cwd, timeoutSecs ? timeoutSecs * 1000 : undefined);
+
+                log.info('MCP start_job tool completed', { id: job.id, pid: job.pid });
+                return {
+                    content: [
+                        {
+                            type: 'text',
+                            text: JSON.stringify(job, null, 2),
+                        },
+                    ],
+                };
+            } catch (error) {
+                const err = error as Error;
+                log.error('MCP start_job tool error', { error: err.message });
+                return {
+                    content: [
+                        {
+                            type: 'text',
+                            text: `Error starting job: ${err.message}`,
+                        },
+                    ],
+                    isError: true,
+                };
+            }
+        },
+    );
+
+    // Register get_job_output tool
+    server.registerTool(
+        'get_job_output',
+        {
+            description:
+                'Returns the status and output of a background job. Pass the nextOffset from the previous call as offset to receive only new output.',
+            inputSchema: {
+                id: z.string().describe('Job ID returned by start_job'),
+                offset: z.number().optional().describe('Character offset to read output from (defaults to 0)'),
+            },
+        },
+        async ({ id, offset }: { id: string; offset?: number }): Promise<CallToolResult> => {
+            log.info('MCP get_job_output tool called', { id, offset });
+            const result = readJobOutput(id, Math.max(offset ?? 0, 0));
+
+            if (!result) {
+                log.warning('MCP get_job_output tool: job not found', { id });
+                return {
+                    content: [
+                        {
+                            type: 'text',
+                            text: `Job not found: ${id}`,
+                        },
+                    ],
+                    isError: true,
+                };
+            }
+
+            return {
+                content: [
+                    {
+                        type: 'text',
+                        text: JSON.stringify(result, null, 2),
+                    },
+                ],
+            };
+        },
+    );
+
+    // Register kill_job tool
+    server.registerTool(
+        'kill_job',
+        {
+            description: 'Stops a running background job and all of its child processes',
+            inputSchema: {
+                id: z.string().describe('Job ID returned by start_job'),
+            },
+        },
+        async ({ id }: { id: string }): Promise<CallToolResult> => {
+            log.info('MCP kill_job tool called', { id });
+            const job = killJob(id);
+
+            if (!job) {
+                log.warning('MCP kill_job tool: job not found', { id });
+                return {
+                    content: [
+                        {
+                            type: 'text',
+                            text: `Job not found: ${id}`,
+                        },
+                    ],
+                    isError: true,
+                };
+            }
+
+            log.info('MCP kill_job tool completed', { id, status: job.status });
+            return {
+                content: [
+                    {
+                        type: 'text',
+                        text: JSON.stringify(job, null, 2),
+                    },
+                ],
+            };
+        },
+    );
+
+    // Register create_kernel tool (stateful execution)
+    server.registerTool(
+        'create_kernel',
+        {
+            description:
+                'Starts a stateful Python or Node.js kernel. Unlike execute, which runs every snippet in a fresh process, code run with execute_in_kernel shares variables, imports and loaded data between calls.',
+            inputSchema: {
+                language: z.string().describe('Language: js, javascript, py, python'),
+                cwd: z.string().optional().describe('Working directory (defaults to /sandbox/py or /sandbox/js-ts)'),
+                name: z
+                    .string()
+                    .optional()
+                    .describe('Unique name to address the kernel by instead of its ID, e.g. "analysis"'),
+            },
+        },
+        async ({ language, cwd, name }: { language: string; cwd?: string; name?: string }): Promise<CallToolResult> => {
+            try {
+                log.info('MCP create_kernel tool called', { language, cwd, name });
+
+                const kernelLanguage = resolveRuntime(language)?.name;
+                if (kernelLanguage !== 'py' && kernelLanguage !== 'js') {
+                    log.warning('MCP create_kernel tool: invalid language', { language });
+                    return {
+                        content: [
+                            {
+                                type: 'text',
+                                text: `Invalid kernel language: ${language}. Supported: js, javascript, py, python`,
+                            },
+                        ],
+                        isError: true,
+                    };
+                }
+
+                const result = createKernel(kernelLanguage, cwd, name);
+                if ('error' in result) {
+                    log.warning('MCP create_kernel tool: kernel not created', { error: result.error });
+                    return { content: [{ type: 'text', text: result.error }], isError: true };
+                }
+
+                const { kernel } = result;
+                log.info('MCP create_kernel tool completed', {
+                    id: kernel.id,
+                    name: kernel.name,
+                    language: kernel.language,
+                });
+                return {
+                    content: [
+                        {
+                            type: 'text',
+                            text: JSON.stringify(kernel, null, 2),
+                        },
+                    ],
+                };
+            } catch (error) {
+                const err = error as Error;
+                log.error('MCP create_kernel tool error', { error: err.message });
+                return {
+                    content: [
+                        {
+                            type: 'text',
+                            text: `Error creating kernel: ${err.message}`,
+                        },
+                    ],
+                    isError: true,
+                };
+            }
+        },
+    );
+
+    // Register execute_in_kernel tool
+    server.registerTool(
+        'execute_in_kernel',
+        {
+            description:
+                'Executes code in a kernel created with create_kernel. Variables persist between calls; the value of a trailing expression is printed like in a REPL.',
+            inputSchema: {
+                id: z.string().describe('Kernel ID returned by create_kernel, or the name given to it'),
+                code: z.string().describe('Code to execute'),
+                timeoutSecs: z
+                    .number()
+                    .optional()
+                    .describe('Interrupt the execution after this many seconds (kernel state is kept)'),
+            },
+        },
+        async ({
+            id,
+            code,
+            timeoutSecs,
+        }: {
+            id: string;
+            code: string;
+            timeoutSecs?: number;
+        }): Promise<CallToolResult> => {
+            try {
+                log.info('MCP execute_in_kernel tool called', { id, codeLength: code.length, timeoutSecs });
 
-/**
- * Normalize language aliases to canonical form
- * @param lang - Language string (optional)
- * @returns Normalized language or null if invalid/not provided
- */
-const normalizeLanguage = (lang?: string): 'js' | 'ts' | 'py' | 'shell' | null => {
-    if (!lang) return null;
-    const lower = lang.toLowerCase();
-    const mapping: Record<string, 'js' | 'ts' | 'py' | 'shell'> = {
-        js: 'js',
-        javascript: 'js',
-        ts: 'ts',
-        typescript: 'ts',
-        py: 'py',
-        python: 'py',
-        bash: 'shell',
-        sh: 'shell',
-    };
-    return mapping[lower] || null;
-};
+                const kernel = getKernel(id);
+                const policyError =
+                    kernel && checkCommandPolicy({ command: code, language: kernel.language, cwd: kernel.cwd });
+                if (policyError) {
+                    return { content: [{ type: 'text', text: policyError }], isError: true };
+                }
 
-/**
- * Creates and configures the MCP server with all sandbox tools
- */
-export const createMcpServer = () => {
-    const server = new McpServer(
-        {
-            name: 'apify-ai-sandbox',
-            version: '1.0.0',
+                const result = await executeInKernel(id, code, timeoutSecs ? timeoutSecs * 1000 : undefined);
+
+                if (!result) {
+                    log.warning('MCP execute_in_kernel tool: kernel not found', { id });
+                    return {
+                        content: [
+                            {
+                                type: 'text',
+                                text: `Kernel not found: ${id}`,
+                            },
+                        ],
+                        isError: true,
+                    };
+                }
+
+                log.info('MCP execute_in_kernel tool completed', { id, error: result.error });
+                return {
+                    content: [
+                        {
+                            type: 'text',
+                            text: JSON.stringify(result, null, 2),
+                        },
+                    ],
+                    isError: result.error !== null,
+                };
+            } catch (error) {
+                const err = error as Error;
+                log.error('MCP execute_in_kernel tool error', { id, error: err.message });
+                return {
+                    content: [
+                        {
+                            type: 'text',
+                            text: `Error executing in kernel: ${err.message}`,
+                        },
+                    ],
+                    isError: true,
+                };
+            }
         },
+    );
+
+    // Register manage_kernel tool (interrupt, restart, delete)
+    server.registerTool(
+        'manage_kernel',
         {
-            capabilities: {
-                tools: {},
+            description:
+                'Interrupts the running execution of a kernel, restarts it (discarding all variables) or deletes it.',
+            inputSchema: {
+                id: z.string().describe('Kernel ID returned by create_kernel, or the name given to it'),
+                action: z.enum(['interrupt', 'restart', 'delete']).describe('Action to perform'),
             },
         },
+        async ({ id, action }: { id: string; action: 'interrupt' | 'restart' | 'delete' }): Promise<CallToolResult> => {
+            log.info('MCP manage_kernel tool called', { id, action });
+
+            const actions = { interrupt: interruptKernel, restart: restartKernel, delete: deleteKernel };
+            const kernel = actions[action](id);
+
+            if (!kernel) {
+                log.warning('MCP manage_kernel tool: kernel not found', { id });
+                return {
+                    content: [
+                        {
+                            type: 'text',
+                            text: `Kernel not found: ${id}`,
+                        },
+                    ],
+                    isError: true,
+                };
+            }
+
+            log.info('MCP manage_kernel tool completed', { id, action, status: kernel.status });
+            return {
+                content: [
+                    {
+                        type: 'text',
+                        text: JSON.stringify(kernel, null, 2),
+                    },
+                ],
+            };
+        },
     );
 
-    // Register execute tool (unified shell and code execution)
+    // Register write-file tool
     server.registerTool(
-        'execute',
+        'write-file',
         {
             description:
-                'Executes shell commands or code snippets (JavaScript, TypeScript, Python). Each code execution is isolated in a new process.',
+                'Writes content to a file in the sandbox. Pass expectedHash (the hash returned by read-file) to fail instead of overwriting changes made by someone else since the file was read.',
             inputSchema: {
-                command: z.string().describe('Shell command or code snippet to execute'),
-                language: z
+                path: z.string().describe('File path to write to'),
+                content: z.string().describe('Content to write to the file'),
+                mode: z.number().optional().describe('File mode (permissions)'),
+                expectedHash: z
                     .string()
                     .optional()
-                    .describe('Language: js, javascript, ts, typescript, py, python, bash, sh (omit for shell)'),
-                cwd: z.string().optional().describe('Working directory (overrides language defaults)'),
-                timeoutSecs: z.number().optional().describe('Timeout in seconds'),
+                    .describe(
+                        'SHA-256 hash of the current content (from read-file); the write fails if the file changed. Empty string: the file must not exist',
+                    ),
             },
         },
         async ({
-            command,
-            language,
-            cwd,
-            timeoutSecs,
+            path,
+            content,
+            mode,
+            expectedHash,
         }: {
-            command: string;
-            language?: string;
-            cwd?: string;
-            timeoutSecs?: number;
+            path: string;
+            content: string;
+            mode?: number;
+            expectedHash?: string;
         }): Promise<CallToolResult> => {
             try {
-                log.info('MCP execute tool called', {
-                    language,
-                    commandLength: command.length,
-                    cwd,
-                    timeoutSecs,
+                log.info('MCP write-file tool called', { path, contentLength: content.length, mode, expectedHash });
+                // The lock keeps other /fs and MCP writes out between the expectedHash check and the write
+                const unlock = await lockPath(path);
+                const result = await writeFile(path, content, mode, expectedHash).finally(unlock);
+
+                if (!result.success) {
+                    log.warning('MCP write-file tool failed', { path, error: result.error });
+                    return {
+                        content: [
+                            {
+                                type: 'text',
+                                text: JSON.stringify(result, null, 2),
+                            },
+                        ],
+                        isError: true,
+                    };
+                }
+
+                log.info('MCP write-file tool completed successfully', { path });
+                return {
+                    content: [
+                        {
+                            type: 'text',
+                            text: JSON.stringify(result, null, 2),
+                        },
+                    ],
+                };
+            } catch (error) {
+                const err = error as Error;
+                log.error('MCP write-file tool error', { path, error: err.message });
+                return {
+                    content: [
+                        {
+                            type: 'text',
+                            text: `Error writing file: ${err.message}`,
+                        },
+                    ],
+                    isError: true,
+                };
+            }
+        },
+    );
+
+    // Register edit_file tool
+    server.registerTool(
+        'edit_file',
+        {
+            description:
+                'Edits a text file in place instead of rewriting it: either a list of exact search/replace edits (each oldText must occur exactly once unless replaceAll is set, so include enough surrounding lines) or a unified diff. All changes are applied atomically or none; returns the resulting unified diff, or an error naming the edit or hunk that failed.',
+            inputSchema: {
+                path: z.string().describe('File path to edit'),
+                edits: z
+                    .array(
+                        z.object({
+                            oldText: z.string().describe('Exact text to replace, including whitespace and indentation'),
+                            newText: z.string().describe('Replacement text'),
+                            replaceAll: z.boolean().optional().describe('Replace every occurrence'),
+                        }),
+                    )
+                    .optional()
+                    .describe('Edits applied in order (omit with diff)'),
+                diff: z.string().optional().describe('Unified diff of the file, e.g. from diff -u (omit with edits)'),
+                expectedHash: z
+                    .string()
+                    .optional()
+                    .describe('SHA-256 hash of the content (from read-file); the edit fails if the file changed'),
+                dryRun: z.boolean().optional().describe('Return the diff without changing the file'),
+            },
+        },
+        async ({ path, ...request }: { path: string } & EditRequest): Promise<CallToolResult> => {
+            try {
+                log.info('MCP edit_file tool called', {
+                    path,
+                    edits: request.edits?.length,
+                    diffLength: request.diff?.length,
+                    dryRun: request.dryRun,
                 });
 
-                // Normalize language
-                const normalizedLang = normalizeLanguage(language);
+                const validationError = validateEditRequest(request);
+                if (validationError) {
+                    return { content: [{ type: 'text', text: validationError }], isError: true };
+                }
 
-                // Validate language
-                if (language && !normalizedLang) {
-                    log.warning('MCP execute tool: invalid language', { language });
+                const unlock = await lockPath(path);
+                const result = await editFile(path, request).finally(unlock);
+
+                if (!result.success) {
+                    log.warning('MCP edit_file tool failed', { path, error: result.error, code: result.code });
                     return {
                         content: [
                             {
                                 type: 'text',
-                                text: `Invalid language: ${language}. Supported: js, javascript, ts, typescript, py, python, bash, sh`,
+                                text: JSON.stringify(result, null, 2),
                             },
                         ],
                         isError: true,
                     };
                 }
 
-                // Convert timeout from seconds to milliseconds
-                const timeoutMs = timeoutSecs ? timeoutSecs * 1000 : undefined;
+                log.info('MCP edit_file tool completed successfully', { path: result.path });
+                return {
+                    content: [
+                        {
+                            type: 'text',
+                            text: JSON.stringify(result, null, 2),
+                        },
+                    ],
+                };
+            } catch (error) {
+                const err = error as Error;
+                log.error('MCP edit_file tool error', { path, error: err.message });
+                return {
+                    content: [
+                        {
+                            type: 'text',
+                            text: `Error editing file: ${err.message}`,
+                        },
+                    ],
+                    isError: true,
+                };
+            }
+        },
+    );
 
-                let result;
+    // Register move_file tool
+    server.registerTool(
+        'move_file',
+        {
+            description:
+                'Moves or renames a file or directory in the sandbox. destination is the exact new path (not a directory to move into); parent directories are created. Fails if the destination exists unless overwrite is set.',
+            inputSchema: {
+                source: z.string().describe('File or directory to move'),
+                destination: z.string().describe('New path, including the file or directory name'),
+                overwrite: z.boolean().optional().describe('Replace an existing destination'),
+            },
+        },
+        async ({
+            source,
+            destination,
+            ...options
+        }: { source: string; destination: string } & TransferOptions): Promise<CallToolResult> => {
+            try {
+                log.info('MCP move_file tool called', { source, destination, ...options });
+                const result = await movePath(source, destination, options);
 
-                // Route to appropriate executor
-                if (!normalizedLang || normalizedLang === 'shell') {
-                    // Shell command execution
-                    result = await runCommand(command, cwd, timeoutMs);
-                    result = { ...result, language: 'shell' };
-                } else {
-                    // Code execution
-                    result = await executeCode(command, normalizedLang, timeoutMs, cwd);
+                if (!result.success) {
+                    log.warning('MCP move_file tool failed', { source, destination, error: result.error });
+                    return {
+                        content: [
+                            {
+                                type: 'text',
+                                text: JSON.stringify(result, null, 2),
+                            },
+                        ],
+                        isError: true,
+                    };
                 }
 
-                log.info('MCP execute tool completed', { language: result.language, exitCode: result.exitCode });
-
+                log.info('MCP move_file tool completed successfully', { source: result.source, path: result.path });
                 return {
                     content: [
                         {
@@ -119,16 +1086,15 @@ export const createMcpServer = () => {
                             text: JSON.stringify(result, null, 2),
                         },
                     ],
-                    isError: result.exitCode !== 0,
                 };
             } catch (error) {
                 const err = error as Error;
-                log.error('MCP execute tool error', { error: err.message });
+                log.error('MCP move_file tool error', { source, destination, error: err.message });
                 return {
                     content: [
                         {
                             type: 'text',
-                            text: `Error executing: ${err.message}`,
+                            text: `Error moving file: ${err.message}`,
                         },
                     ],
                     isError: true,
@@ -137,24 +1103,30 @@ export const createMcpServer = () => {
         },
     );
 
-    // Register write-file tool
+    // Register copy_file tool
     server.registerTool(
-        'write-file',
+        'copy_file',
         {
-            description: 'Writes content to a file in the sandbox',
+            description:
+                'Copies a file, or a directory with recursive, in the sandbox. destination is the exact path of the copy (not a directory to copy into); parent directories are created. Fails if the destination exists unless overwrite is set.',
             inputSchema: {
-                path: z.string().describe('File path to write to'),
-                content: z.string().describe('Content to write to the file'),
-                mode: z.number().optional().describe('File mode (permissions)'),
+                source: z.string().describe('File or directory to copy'),
+                destination: z.string().describe('New path, including the file or directory name'),
+                overwrite: z.boolean().optional().describe('Replace an existing destination'),
+                recursive: z.boolean().optional().describe('Copy a directory with its contents'),
             },
         },
-        async ({ path, content, mode }: { path: string; content: string; mode?: number }): Promise<CallToolResult> => {
+        async ({
+            source,
+            destination,
+            ...options
+        }: { source: string; destination: string } & TransferOptions): Promise<CallToolResult> => {
             try {
-                log.info('MCP write-file tool called', { path, contentLength: content.length, mode });
-                const result = await writeFile(path, content, mode);
+                log.info('MCP copy_file tool called', { source, destination, ...options });
+                const result = await copyPath(source, destination, options);
 
                 if (!result.success) {
-                    log.warning('MCP write-file tool failed', { path, error: result.error });
+                    log.warning('MCP copy_file tool failed', { source, destination, error: result.error });
                     return {
                         content: [
                             {
@@ -166,7 +1138,7 @@ export const createMcpServer = () => {
                     };
                 }
 
-                log.info('MCP write-file tool completed successfully', { path });
+                log.info('MCP copy_file tool completed successfully', { source: result.source, path: result.path });
                 return {
                     content: [
                         {
@@ -177,12 +1149,12 @@ export const createMcpServer = () => {
                 };
             } catch (error) {
                 const err = error as Error;
-                log.error('MCP write-file tool error', { path, error: err.message });
+                log.error('MCP copy_file tool error', { source, destination, error: err.message });
                 return {
                     content: [
                         {
                             type: 'text',
-                            text: `Error writing file: ${err.message}`,
+                            text: `Error copying file: ${err.message}`,
                         },
                     ],
                     isError: true,
@@ -196,7 +1168,7 @@ export const createMcpServer = () => {
         'read-file',
         {
             description:
-                'Reads file contents from the sandbox. To read only a part of a file (e.g., specific lines), use the run-command tool with utilities like sed, head, tail, or grep (e.g., "sed -n 10,20p file.txt" to read lines 10-20).',
+                'Reads file contents from the sandbox, with the SHA-256 hash of the content to pass as expectedHash to write-file. To read only a part of a file (e.g., specific lines), use the run-command tool with utilities like sed, head, tail, or grep (e.g., "sed -n 10,20p file.txt" to read lines 10-20).',
             inputSchema: {
                 path: z.string().describe('File path to read from'),
             },
@@ -248,15 +1220,44 @@ export const createMcpServer = () => {
     server.registerTool(
         'list-files',
         {
-            description: 'Lists files and directories in a sandbox path',
+            description:
+                'Lists files and directories in a sandbox path with size, mtime, mode and symlink target. ' +
+                'Set recursive or depth to list subdirectories, filter with include/exclude globs, hidden and ' +
+                'gitignore, and page through large listings with limit and the returned nextCursor. ' +
+                'Returns files[] with absolute paths.',
             inputSchema: {
                 path: z.string().optional().describe('Directory path to list (defaults to current directory)'),
+                recursive: z
+                    .boolean()
+                    .optional()
+                    .describe('List subdirectories too (without depth limit unless depth is set)'),
+                depth: z.number().int().positive().optional().describe('Maximum depth, 1 = direct children'),
+                include: z
+                    .array(z.string())
+                    .optional()
+                    .describe(
+                        'Globs entries must match, e.g. ["*.ts"]; patterns without / match the name at any depth',
+                    ),
+                exclude: z
+                    .array(z.string())
+                    .optional()
+                    .describe('Globs of entries to leave out, e.g. ["node_modules"]; excluded directories are skipped'),
+                hidden: z.boolean().optional().describe('Include dotfiles (default true)'),
+                gitignore: z.boolean().optional().describe('Leave out .git and files ignored by .gitignore'),
+                sort: z.string().optional().describe('name (default), size or mtime; prefix with - for descending'),
+                limit: z.number().int().positive().optional().describe('Maximum number of entries to return'),
+                cursor: z.string().optional().describe('nextCursor of the previous page'),
             },
         },
-        async ({ path }: { path?: string }): Promise<CallToolResult> => {
+        async ({ path, ...options }: { path?: string } & ListOptions): Promise<CallToolResult> => {
             try {
-                log.info('MCP list-files tool called', { path });
-                const result = await listFiles(path);
+                log.info('MCP list-files tool called', { path, options });
+                const validationError = validateListOptions(options);
+                if (validationError) {
+                    return { content: [{ type: 'text', text: validationError }], isError: true };
+                }
+
+                const result = toFileList(await listFilesDetailed(path, options));
 
                 if (result.error) {
                     log.warning('MCP list-files tool failed', { path, error: result.error });
@@ -299,5 +1300,67 @@ export const createMcpServer = () => {
         },
     );
 
+    // Register search_files tool
+    server.registerTool(
+        'search_files',
+        {
+            description:
+                'Searches file contents below a sandbox path for a regular expression or literal text, like grep. Returns matches with path (relative to /sandbox), line, column, the matching line as preview and optional context lines. Files ignored by .gitignore, binary files and files over 5 MB are skipped.',
+            inputSchema: {
+                query: z.string().describe('Regular expression (JavaScript syntax), or literal text if literal is set'),
+                literal: z.boolean().optional().describe('Match query as plain text'),
+                path: z.string().optional().describe('File or directory to search (defaults to /sandbox)'),
+                include: z.array(z.string()).optional().describe('Globs of files to search, e.g. ["*.ts"]'),
+                exclude: z.array(z.string()).optional().describe('Globs of files and directories to skip'),
+                hidden: z.boolean().optional().describe('Search dotfiles (default true)'),
+                gitignore: z.boolean().optional().describe('Skip .git and files ignored by .gitignore (default true)'),
+                caseSensitive: z.boolean().optional().describe('Default true'),
+                context: z.number().int().optional().describe('Lines of context before and after each match (0-10)'),
+                maxResults: z.number().int().optional().describe('Maximum number of matches (default 100)'),
+            },
+        },
+        async (request: SearchRequest): Promise<CallToolResult> => {
+            try {
+                log.info('MCP search_files tool called', { query: request.query, path: request.path });
+
+                const validationError = validateSearchRequest(request);
+                if (validationError) {
+                    return { content: [{ type: 'text', text: validationError }], isError: true };
+                }
+
+                const result = await searchFiles(request);
+                if (typeof result === 'string') {
+                    return { content: [{ type: 'text', text: result }], isError: true };
+                }
+
+                log.info('MCP search_files tool completed', {
+                    path: result.path,
+                    matchCount: result.matches.length,
+                    filesSearched: result.filesSearched,
+                });
+                return {
+                    content: [
+                        {
+                            type: 'text',
+                            text: JSON.stringify(result, null, 2),
+                        },
+                    ],
+                };
+            } catch (error) {
+                const err = error as Error;
+                log.error('MCP search_files tool error', { error: err.message });
+                return {
+                    content: [
+                        {
+                            type: 'text',
+                            text: `Error searching files: ${err.message}`,
+                        },
+                    ],
+                    isError: true,
+                };
+            }
+        },
+    );
+
     return server;
 };
@@ -0,0 +1,309 @@
+// Network egress policy for executions and the shell terminal
+// Executions get HTTP(S)_PROXY pointing to a local proxy that only forwards connections the policy allows and
+// records denied attempts for GET /network/log. When executions run as the sandbox user, iptables additionally
+// rejects its direct outbound connections, so clients that ignore the proxy variables cannot bypass the policy
+// Without the sandbox user the policy is advisory: executions can unset the proxy variables and connect directly
+import { exec } from 'node:child_process';
+import dns from 'node:dns/promises';
+import http from 'node:http';
+import net from 'node:net';
+import type { Duplex } from 'node:stream';
+import { promisify } from 'node:util';
+
+import { log } from 'apify';
+
+import { EGRESS_PROXY_PORT, MAX_NETWORK_LOG_ENTRIES } from './consts.js';
+import type { EgressPolicy, NetworkLogEntry } from './types.js';
+import { getUserSpawnOptions } from './user.js';
+
+const execAsync = promisify(exec);
+
+type EgressMode = NonNullable<EgressPolicy['mode']>;
+
+const EGRESS_MODES: EgressMode[] = ['allowAll', 'denyAll', 'allowlist'];
+
+/**
+ * Domain allowlist entry, optionally prefixed with "*." (a domain matches its subdomains either way)
+ */
+const DOMAIN_PATTERN = /^(\*\.)?[a-z0-9_-]+(\.[a-z0-9_-]+)*\.?$/i;
+
+let mode: EgressMode = 'allowAll';
+let allowlist: string[] = [];
+let allowedDomains: string[] = [];
+let allowedAddresses = new net.BlockList();
+let hasAllowedAddresses = false;
+let directConnectionsBlocked = false;
+const networkLog: NetworkLogEntry[] = [];
+
+/**
+ * Parse an IP address or CIDR range allowlist entry
+ * @returns undefined if the entry is not an address (i.e. it is a domain or invalid)
+ */
+const parseAddressEntry = (
+    entry: string,
+): { address: string; prefix?: number; family: 'ipv4' | 'ipv6' } | undefined => {
+    const [address, prefix, ...rest] = entry.split('/');
+    const version = net.isIP(address);
+    if (!version || rest.length > 0) return undefined;
+    const family = version === 4 ? 'ipv4' : 'ipv6';
+    if (prefix === undefined) return { address, family };
+    if (!/^\d+$/.test(prefix) || Number(prefix) > (version === 4 ? 32 : 128)) return undefined;
+    return { address, prefix: Number(prefix), family };
+};
+
+/**
+ * Validate the egress policy input
+ * @returns Error message, or null if the policy is valid
+ */
+export const validateEgressPolicy = (input: unknown): string | null => {
+    if (input === undefined || input === null) return null;
+    if (typeof input !== 'object' || Array.isArray(input)) return 'egressPolicy must be an object';
+    const policy = input as EgressPolicy;
+    if (policy.mode !== undefined && !EGRESS_MODES.includes(policy.mode)) {
+        return `Invalid mode: ${policy.mode}. Supported: ${EGRESS_MODES.join(', ')}`;
+    }
+    if (policy.allowlist === undefined) return null;
+    if (!Array.isArray(policy.allowlist)) return 'egressPolicy.allowlist must be an array';
+    for (const entry of policy.allowlist) {
+        if (typeof entry !== 'string' || (!parseAddressEntry(entry) && !DOMAIN_PATTERN.test(entry))) {
+            return `Invalid allowlist entry: ${entry}. Expected a domain, IP address or CIDR range`;
+        }
+    }
+    return null;
+};
+
+const normalizeHost = (host: string): string => host.toLowerCase().replace(/\.$/, '');
+
+const isDomainAllowed = (host: string): boolean =>
+    allowedDomains.some((domain) => host === domain || host.endsWith(`.${domain}`));
+
+const isAddressAllowed = (address: string): boolean =>
+    allowedAddresses.check(address, net.isIPv6(address) ? 'ipv6' : 'ipv4');
+
+/**
+ * Check a destination host against the policy
+ * @returns Address to connect to, or the reason the destination is denied
+ */
+const resolveDestination = async (
+    host: string,
+): Promise<{ allowed: true; address: string } | { allowed: false; reason: string }> => {
+    if (mode === 'denyAll') return { allowed: false, reason: 'all outbound connections are denied' };
+
+    const normalizedHost = normalizeHost(host);
+    if (net.isIP(normalizedHost)) {
+        return isAddressAllowed(normalizedHost)
+            ? { allowed: true, address: normalizedHost }
+            : { allowed: false, reason: 'address is not in the allowlist' };
+    }
+    if (isDomainAllowed(normalizedHost)) return { allowed: true, address: normalizedHost };
+    if (hasAllowedAddresses) {
+        // Connect to the checked address, so the DNS answer cannot change between the check and the connection
+        const addresses = await dns.lookup(normalizedHost, { all: true }).catch(() => []);
+        const allowed = addresses.find(({ address }) => isAddressAllowed(address));
+        if (allowed) return { allowed: true, address: allowed.address };
+    }
+    return { allowed: false, reason: 'host is not in the allowlist' };
+};
+
+/**
+ * Record a denied connection attempt
+ */
+const recordDenied = (host: string, port: number, method: string, reason: string): void => {
+    networkLog.push({ timestamp: new Date().toISOString(), host, port, method, reason });
+    if (networkLog.length > MAX_NETWORK_LOG_ENTRIES) networkLog.shift();
+    log.warning('Egress policy violation', { host, port, method, reason });
+};
+
+/**
+ * Parse the target of a proxy request ("host:port" for CONNECT, an absolute URL otherwise)
+ */
+const parseTarget = (target: string): { host: string; port: number; path: string } | undefined => {
+    try {
+        const url = new URL(target.includes('://') ? target : `http://${target}`);
+        return {
+            host: url.hostname.replace(/^\[|\]$/g, ''),
+            port: Number(url.port) || (url.protocol === 'https:' ? 443 : 80),
+            path: `${url.pathname}${url.search}`,
+        };
+    } catch {
+        return undefined;
+    }
+};
+
+/**
+ * Tunnel a CONNECT request (HTTPS and other TLS traffic)
+ */
+const handleConnect = async (req: http.IncomingMessage, clientSocket: Duplex, head: Buffer): Promise<void> => {
+    clientSocket.on('error', () => clientSocket.destroy());
+    const target = parseTarget(req.url ?? '');
+    if (!target) {
+        clientSocket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+        return;
+    }
+
+    const destination = await resolveDestination(target.host);
+    if (!destination.allowed) {
+        recordDenied(target.host, target.port, 'CONNECT', destination.reason);
+        clientSocket.end(`HTTP/1.1 403 Forbidden\r\n\r\nDenied by egress policy: ${destination.reason}\n`);
+        return;
+    }
+
+    let connected = false;
+    const upstream = net.connect(target.port, destination.address, () => {
+        connected = true;
+        clientSocket.write('HTTP/1.1 200 Connection Established\r\n\r\n');
+        if (head.length > 0) upstream.write(head);
+        upstream.pipe(clientSocket);
+        clientSocket.pipe(upstream);
+    });
+    upstream.on('error', (error) => {
+        log.debug('Egress proxy upstream error', { host: target.host, port: target.port, error: error.message });
+        if (connected) clientSocket.destroy();
+        else clientSocket.end('HTTP/1.1 502 Bad Gateway\r\n\r\n');
+    });
+    clientSocket.on('close', () => upstream.destroy());
+};
+
+/**
+ * Forward a plain HTTP proxy request
+ */
+const handleRequest = async (req: http.IncomingMessage, res: http.ServerResponse): Promise<void> => {
+    const target = req.url?.startsWith('http://') ? parseTarget(req.url) : undefined;
+    if (!target) {
+        res.writeHead(400, { 'Content-Type': 'text/plain' }).end('Only proxy requests are supported\n');
+        return;
+    }
+
+    const destination = await resolveDestination(target.host);
+    if (!destination.allowed) {
+        recordDenied(target.host, target.port, req.method ?? 'GET', destination.reason);
+        res.writeHead(403, { 'Content-Type': 'text/plain' }).end(`Denied by egress policy: ${destination.reason}\n`);
+        return;
+    }
+
+    const headers = { ...req.headers };
+    delete headers['proxy-connection'];
+    delete headers['proxy-authorization'];
+    const upstream = http.request(
+        { host: destination.address, port: target.port, method: req.method, path: target.path, headers },
+        (upstreamRes) => {
+            res.writeHead(upstreamRes.statusCode ?? 502, upstreamRes.headers);
+            upstreamRes.pipe(res);
+        },
+    );
+    upstream.on('error', (error) => {
+        log.debug('Egress proxy upstream error', { host: target.host, port: target.port, error: error.message });
+        if (!res.headersSent) res.writeHead(502, { 'Content-Type': 'text/plain' });
+        res.end();
+    });
+    req.pipe(upstream);
+};
+
+/**
+ * Start the egress proxy on localhost
+ */
+const startProxy = async (): Promise<void> => {
+    const server = http.createServer((req, res) => {
+        handleRequest(req, res).catch((error) => {
+            log.error('Egress proxy request failed', { error: (error as Error).message });
+            res.destroy();
+        });
+    });
+    server.on('connect', (req: http.IncomingMessage, socket: Duplex, head: Buffer) => {
+        handleConnect(req, socket, head).catch((error) => {
+            log.error('Egress proxy tunnel failed', { error: (error as Error).message });
+            socket.destroy();
+        });
+    });
+    await new Promise<void>((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(EGRESS_PROXY_PORT, '127.0.0.1', () => resolve());
+    });
+};
+
+/**
+ * Reject direct outbound connections of the sandbox user; loopback (the proxy and local services) stays reachable
+ * @returns Whether the firewall rules were installed
+ */
+const blockDirectConnections = async (): Promise<boolean> => {
+    const { uid } = getUserSpawnOptions();
+    if (uid === undefined) {
+        log.warning(
+            'Egress policy is advisory only: direct connections that ignore the proxy variables are not blocked. ' +
+                'Enable runAsSandboxUser to enforce it',
+        );
+        return false;
+    }
+    try {
+        for (const command of ['iptables', 'ip6tables']) {
+            await execAsync(`${command} -A OUTPUT -o lo -m owner --uid-owner ${uid} -j ACCEPT`);
+            await execAsync(`${command} -A OUTPUT -m owner --uid-owner ${uid} -j REJECT`);
+        }
+        return true;
+    } catch (error) {
+        log.warning('Failed to block direct connections of the sandbox user, the egress policy is advisory only', {
+            error: (error as Error).message,
+        });
+        return false;
+    }
+};
+
+/**
+ * Set the egress policy for executions and the shell (from Actor input) and start enforcing it
+ * The policy must be validated with validateEgressPolicy first. Must run after the sandbox user is initialized,
+ * and after dependency installation and the init script, which keep unrestricted network access
+ * Executions point to the proxy even if it fails to start, so a failure denies connections instead of allowing them
+ */
+export const setEgressPolicy = async (policy: EgressPolicy = {}): Promise<void> => {
+    mode = policy.mode ?? 'allowAll';
+    allowlist = mode === 'allowlist' ? (policy.allowlist ?? []) : [];
+    allowedDomains = [];
+    allowedAddresses = new net.BlockList();
+    hasAllowedAddresses = false;
+    for (const entry of allowlist) {
+        const parsed = parseAddressEntry(entry);
+        if (!parsed) {
+            allowedDomains.push(normalizeHost(entry.replace(/^\*\./, '')));
+        } else {
+            hasAllowedAddresses = true;
+            if (parsed.prefix === undefined) allowedAddresses.addAddress(parsed.address, parsed.family);
+            else allowedAddresses.addSubnet(parsed.address, parsed.prefix, parsed.family);
+        }
+    }
+    if (mode === 'allowAll') return;
+
+    await startProxy();
+    directConnectionsBlocked = await blockDirectConnections();
+    log.info('Egress policy configured', { mode, allowlist: allowlist.length, directConnectionsBlocked });
+};
+
+/**
+ * Proxy environment variables for executions and the shell (empty if network access is unrestricted)
+ */
+export const getEgressEnvironment = (): Record<string, string> => {
+    if (mode === 'allowAll') return {};
+    const proxyUrl = `http://127.0.0.1:${EGRESS_PROXY_PORT}`;
+    const noProxy = 'localhost,127.0.0.1,::1';
+    return {
+        HTTP_PROXY: proxyUrl,
+        HTTPS_PROXY: proxyUrl,
+        ALL_PROXY: proxyUrl,
+        NO_PROXY: noProxy,
+        http_proxy: proxyUrl,
+        https_proxy: proxyUrl,
+        all_proxy: proxyUrl,
+        no_proxy: noProxy,
+        // Make Node.js fetch and http clients honor the proxy variables
+        NODE_USE_ENV_PROXY: '1',
+    };
+};
+
+/**
+ * Current egress policy and denied connection attempts (oldest first)
+ */
+export const getNetworkLog = (): {
+    mode: EgressMode;
+    allowlist: string[];
+    directConnectionsBlocked: boolean;
+    entries: NetworkLogEntry[];
+} => ({ mode, allowlist: [...allowlist], directConnectionsBlocked, entries: [...networkLog] });
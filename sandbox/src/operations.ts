@@ -1,19 +1,51 @@
 // Abstracted operations for sandbox functionality
-import { exec } from 'node:child_process';
+import { execFile, spawn } from 'node:child_process';
 import crypto from 'node:crypto';
-import { promises as fs } from 'node:fs';
+import type { Stats } from 'node:fs';
+import { createReadStream, promises as fs } from 'node:fs';
 import path from 'node:path';
 import type { Readable } from 'node:stream';
 import { promisify } from 'node:util';
 
 import { log } from 'apify';
 import archiver from 'archiver';
+import type { Ignore } from 'ignore';
+import ignore from 'ignore';
 import mime from 'mime-types';
-
-import { JS_TS_CODE_DIR, PYTHON_CODE_DIR, SANDBOX_DIR } from './consts.js';
+import { Minimatch } from 'minimatch';
+
+import { collectArtifacts, createArtifactsDir, getArtifactsEnvironment } from './artifacts.js';
+import {
+    EXECUTION_KILL_GRACE_PERIOD,
+    FILE_ETAG_MAX_HASH_BYTES,
+    MAX_FILE_HASH_CACHE_ENTRIES,
+    MAX_LISTED_ENTRIES,
+    SANDBOX_DIR,
+} from './consts.js';
+import { installInlineDependencies } from './dependencies.js';
+import type { EditRequest } from './edits.js';
+import { applyTextEdits, applyUnifiedDiff, createUnifiedDiff } from './edits.js';
 import { getExecutionEnvironment } from './environment.js';
-
-const execAsync = promisify(exec);
+import {
+    describeExceededLimit,
+    getLimitedSpawnArgs,
+    isMemoryLimitFailure,
+    resolveLimits,
+    watchProcessTree,
+} from './limits.js';
+import type { Runtime } from './runtimes.js';
+import {
+    buildRuntimeCommand,
+    getSupportedLanguages,
+    resolveRuntime,
+    resolveRuntimeByExtension,
+    shellQuote,
+} from './runtimes.js';
+import { redactSecrets, SecretStreamRedactor } from './secrets.js';
+import type { Artifact, DependencyInstallReport, ExceededLimit, ExecutionOptions } from './types.js';
+import { chownToSandboxUser, getUserSpawnOptions } from './user.js';
+
+const execFileAsync = promisify(execFile);
 
 /**
  * Resolve directory path relative to SANDBOX_DIR
@@ -37,7 +69,7 @@ const resolveDirectoryPath = (dirPath?: string): string => {
  * @returns Resolved absolute path
  * @throws Error if path attempts to escape /sandbox
  */
-const resolveAndValidatePath = async (filePath: string): Promise<string> => {
+export const resolveAndValidatePath = async (filePath: string): Promise<string> => {
     // Resolve path relative to SANDBOX_DIR if not absolute
     const resolvedPath = path.isAbsolute(filePath) ? filePath : path.join(SANDBOX_DIR, filePath);
 
@@ -58,6 +90,191 @@ const resolveAndValidatePath = async (filePath: string): Promise<string> => {
     return realPath;
 };
 
+/**
+ * Decode stdin received over the API
+ * Returns undefined if the base64 payload is malformed
+ */
+export const decodeStdin = (stdin: string, encoding: 'utf8' | 'base64' = 'utf8'): string | Buffer | undefined => {
+    if (encoding !== 'base64') return stdin;
+    const normalized = stdin.replace(/\s/g, '');
+    if (!/^[A-Za-z0-9+/]*={0,2}$/.test(normalized) || normalized.length % 4 === 1) return undefined;
+    return Buffer.from(normalized, 'base64');
+};
+
+/**
+ * Spawn a shell command and collect its output
+ * Output chunks are forwarded to onOutput as they arrive, so callers can stream them
+ * The command runs in its own process group, so a timeout, an abort or an exceeded resource limit
+ * kills all of its child processes too, not just the top-level shell
+ * The returned promise never rejects; spawn failures are reported via stderr and exit code 1
+ */
+const spawnCommand = async (
+    command: string,
+    cwd: string,
+    timeout: number | undefined,
+    options: ExecutionOptions,
+): Promise<{
+    stdout: string;
+    stderr: string;
+    exitCode: number;
+    timedOut: boolean;
+    signal: NodeJS.Signals | null;
+    durationMs: number;
+    limitExceeded: ExceededLimit | null;
+    artifacts?: Artifact[];
+}> => {
+    const startedAt = Date.now();
+    const limits = resolveLimits(options.limits);
+    const { file, args } = getLimitedSpawnArgs(command, limits);
+    const artifactsDir = options.captureArtifacts ? await createArtifactsDir() : undefined;
+    const env = getExecutionEnvironment(options.env);
+    if (artifactsDir) {
+        // Per-request env wins, so a caller can still point SANDBOX_ARTIFACTS_DIR or MPLBACKEND elsewhere;
+        // the capture modules go in front of the PYTHONPATH of the merged environment, including one from the request
+        for (const [key, value] of Object.entries(getArtifactsEnvironment(artifactsDir, env.PYTHONPATH))) {
+            if (key === 'PYTHONPATH' || options.env?.[key] === undefined) env[key] = value;
+        }
+    }
+
+    const result = await new Promise<Awaited<ReturnType<typeof spawnCommand>>>((resolve) => {
+        let stdout = '';
+        let stderr = '';
+        let outputBytes = 0;
+        let timedOut = false;
+        let limitExceeded: ExceededLimit | null = null;
+        let settled = false;
+
+        const child = spawn(file, args, {
+            cwd,
+            env,
+            ...getUserSpawnOptions(),
+            stdio: ['pipe', 'pipe', 'pipe'],
+            // Make the child the leader of a new process group
+            detached: true,
+        });
+
+        // Closing stdin right away gives processes that read it an immediate EOF
+        // The process may exit without reading its input, so write errors (EPIPE) are ignored
+        child.stdin.on('error', (err) => log.debug('Failed to write stdin', { error: err.message }));
+        child.stdin.end(options.stdin);
+
+        const signalGroup = (signal: NodeJS.Signals) => {
+            if (!child.pid) return;
+            try {
+                process.kill(-child.pid, signal);
+            } catch {
+                // Process group already gone
+            }
+        };
+
+        // SIGTERM first so processes can clean up, SIGKILL for whatever is still running after the grace period
+        const terminate = () => {
+            signalGroup('SIGTERM');
+            setTimeout(() => signalGroup('SIGKILL'), EXECUTION_KILL_GRACE_PERIOD).unref();
+        };
+
+        const timer = timeout
+            ? setTimeout(() => {
+                  log.debug('Execution timed out, terminating process group', { pid: child.pid, timeout });
+                  timedOut = true;
+                  terminate();
+              }, timeout)
+            : undefined;
+
+        const onAbort = () => {
+            log.debug('Execution aborted, terminating process group', { pid: child.pid });
+            terminate();
+        };
+        options.abortSignal?.addEventListener('abort', onAbort, { once: true });
+        if (options.abortSignal?.aborted) onAbort();
+
+        // Streamed chunks are redacted per stream, so secrets split across chunks are redacted too
+        const redactors = { stdout: new SecretStreamRedactor(), stderr: new SecretStreamRedactor() };
+        const emitOutput = (stream: 'stdout' | 'stderr', data: string) => {
+            if (data) options.onOutput?.({ stream, data, timestamp: new Date().toISOString() });
+        };
+
+        const appendOutput = (stream: 'stdout' | 'stderr', data: string) => {
+            if (stream === 'stdout') stdout += data;
+            else stderr += data;
+            if (options.onOutput) emitOutput(stream, redactors[stream].push(data));
+        };
+
+        const exceedLimit = (limit: ExceededLimit) => {
+            if (limitExceeded || settled) return;
+            limitExceeded = limit;
+            signalGroup('SIGKILL');
+        };
+
+        const stopWatching = child.pid ? watchProcessTree(child.pid, limits, exceedLimit) : undefined;
+
+        const finish = (exitCode: number, signal: NodeJS.Signals | null = null) => {
+            if (settled) return;
+            // A process exceeding the per-process CPU limit is terminated by the kernel with SIGXCPU
+            if (!limitExceeded && limits.maxCpuSecs && (signal === 'SIGXCPU' || exitCode === 128 + 24)) {
+                limitExceeded = 'cpu';
+            }
+            if (!limitExceeded && isMemoryLimitFailure(exitCode, stderr, limits)) {
+                limitExceeded = 'memory';
+            }
+            if (limitExceeded) {
+                appendOutput('stderr', `\n[Execution stopped: ${describeExceededLimit(limitExceeded, limits)}]\n`);
+            }
+            settled = true;
+            if (options.onOutput) {
+                emitOutput('stdout', redactors.stdout.flush());
+                emitOutput('stderr', redactors.stderr.flush());
+            }
+            if (timer) clearTimeout(timer);
+            stopWatching?.();
+            options.abortSignal?.removeEventListener('abort', onAbort);
+            resolve({
+                stdout: redactSecrets(stdout),
+                stderr: redactSecrets(stderr),
+                exitCode,
+                timedOut,
+                signal,
+                durationMs: Date.now() - startedAt,
+                limitExceeded,
+            });
+        };
+
+        const onData = (stream: 'stdout' | 'stderr', data: string) => {
+            if (limitExceeded === 'output') return;
+            if (!limits.maxOutputBytes) {
+                appendOutput(stream, data);
+                return;
+            }
+            const remaining = limits.maxOutputBytes - outputBytes;
+            const size = Buffer.byteLength(data);
+            outputBytes += size;
+            if (size <= remaining) {
+                appendOutput(stream, data);
+                return;
+            }
+            appendOutput(stream, Buffer.from(data).subarray(0, remaining).toString('utf8'));
+            exceedLimit('output');
+        };
+
+        child.stdout.setEncoding('utf8');
+        child.stderr.setEncoding('utf8');
+        child.stdout.on('data', (data: string) => onData('stdout', data));
+        child.stderr.on('data', (data: string) => onData('stderr', data));
+
+        child.on('error', (err) => {
+            stderr += err.message;
+            finish(1);
+        });
+
+        // 'close' fires after stdio streams are drained, so no output is lost
+        child.on('close', (code, signal) => {
+            finish(code ?? 1, signal);
+        });
+    });
+
+    return artifactsDir ? { ...result, artifacts: await collectArtifacts(artifactsDir) } : result;
+};
+
 /**
  * Execute a shell command
  */
@@ -65,39 +282,139 @@ export const runCommand = async (
     command: string,
     cwd?: string,
     timeout?: number,
+    options: ExecutionOptions = {},
 ): Promise<{
     stdout: string;
     stderr: string;
     exitCode: number;
+    timedOut: boolean;
+    signal: NodeJS.Signals | null;
+    durationMs: number;
+    limitExceeded: ExceededLimit | null;
+    artifacts?: Artifact[];
 }> => {
     log.debug('runCommand called', { command, cwd, timeout });
+
+    // Arguments become the positional parameters of the shell command
+    const fullCommand = options.args?.length ? `set -- ${options.args.map(shellQuote).join(' ')}\n${command}` : command;
+
+    // Use /sandbox as default working directory
+    const result = await spawnCommand(fullCommand, cwd || SANDBOX_DIR, timeout, options);
+
+    if (result.exitCode === 0) {
+        log.debug('runCommand succeeded', { command, cwd: cwd || SANDBOX_DIR, exitCode: 0 });
+    } else {
+        log.debug('runCommand failed', {
+            command,
+            exitCode: result.exitCode,
+            timedOut: result.timedOut,
+            signal: result.signal,
+            limitExceeded: result.limitExceeded,
+        });
+    }
+    return result;
+};
+
+// Content hashes of files by path, reused while the size and ctime are unchanged (hashing large files is slow)
+const fileHashCache = new Map<string, { size: bigint; ctimeNs: bigint; hash: string }>();
+
+/**
+ * SHA-256 of content as hex, the format of file hashes and /fs ETags
+ */
+export const hashContent = (content: string | Buffer): string =>
+    crypto.createHash('sha256').update(content).digest('hex');
+
+/**
+ * SHA-256 of a file's content as hex
+ * @returns The hash, or undefined if the path does not exist or is not a file
+ */
+export const getFileHash = async (filePath: string): Promise<string | undefined> => {
+    let resolvedPath: string;
+    let stats;
     try {
-        const execOptions: { cwd?: string; timeout?: number; env?: NodeJS.ProcessEnv } = {
-            env: getExecutionEnvironment(),
-            // Use /sandbox as default working directory
-            cwd: cwd || SANDBOX_DIR,
-        };
-        if (timeout) {
-            execOptions.timeout = timeout;
-        }
+        resolvedPath = await resolveAndValidatePath(filePath);
+        stats = await fs.stat(resolvedPath, { bigint: true });
+    } catch {
+        return undefined;
+    }
+    if (!stats.isFile()) return undefined;
 
-        const { stdout, stderr } = await execAsync(command, execOptions);
+    const cached = fileHashCache.get(resolvedPath);
+    if (cached && cached.size === stats.size && cached.ctimeNs === stats.ctimeNs) return cached.hash;
 
-        log.debug('runCommand succeeded', { command, cwd: execOptions.cwd, exitCode: 0 });
-        return {
-            stdout,
-            stderr,
-            exitCode: 0,
-        };
-    } catch (error) {
-        const err = error as { message: string; stdout?: string; stderr?: string; code?: number };
-        log.debug('runCommand failed', { command, error: err.message, exitCode: err.code || 1 });
-        return {
-            stdout: err.stdout || '',
-            stderr: err.stderr || '',
-            exitCode: err.code || 1,
-        };
+    const hash = crypto.createHash('sha256');
+    for await (const chunk of createReadStream(resolvedPath)) hash.update(chunk as Buffer);
+    const digest = hash.digest('hex');
+
+    fileHashCache.delete(resolvedPath);
+    fileHashCache.set(resolvedPath, { size: stats.size, ctimeNs: stats.ctimeNs, hash: digest });
+    // Maps iterate in insertion order, so the first key is the least recently hashed file
+    if (fileHashCache.size > MAX_FILE_HASH_CACHE_ENTRIES) {
+        const [oldest] = fileHashCache.keys();
+        fileHashCache.delete(oldest);
+    }
+    return digest;
+};
+
+/**
+ * ETag of a file as sent with its content: the quoted content hash, or for files larger than FILE_ETAG_MAX_HASH_BYTES
+ * a weak ETag of size and modification time, so reading a large growing file (e.g. tailing a log) does not hash it all
+ * @returns The ETag, or undefined if the path does not exist or is not a file
+ */
+export const getFileETag = async (filePath: string): Promise<string | undefined> => {
+    let resolvedPath: string;
+    let stats;
+    try {
+        resolvedPath = await resolveAndValidatePath(filePath);
+        stats = await fs.stat(resolvedPath, { bigint: true });
+    } catch {
+        return undefined;
+    }
+    if (!stats.isFile()) return undefined;
+    if (stats.size > FILE_ETAG_MAX_HASH_BYTES) return `W/"${stats.size.toString(16)}-${stats.mtimeNs.toString(16)}"`;
+    const hash = await getFileHash(resolvedPath);
+    return hash && `"${hash}"`;
+};
+
+// Tails of the queues of requests waiting for the lock of a path
+const pathLocks = new Map<string, Promise<void>>();
+
+/**
+ * Wait until no other request holds the lock of a path, then take it
+ * Lets a request check a file (e.g. against If-Match) and change it without another request changing it in between;
+ * only requests of this server take the lock, executions can still write the file at any time
+ * @returns Function that releases the lock
+ */
+export const lockPath = async (filePath: string): Promise<() => void> => {
+    const key = path.normalize(resolveDirectoryPath(filePath));
+    const previous = pathLocks.get(key) ?? Promise.resolve();
+    let release!: () => void;
+    const held = new Promise<void>((resolve) => {
+        release = resolve;
+    });
+    const tail = previous.then(async () => held);
+    pathLocks.set(key, tail);
+    await previous;
+    return () => {
+        release();
+        if (pathLocks.get(key) === tail) pathLocks.delete(key);
+    };
+};
+
+/**
+ * Take the locks of several paths, e.g. the source and destination of a move
+ * The locks are taken in sorted order, so two requests locking the same paths cannot wait for each other
+ * @returns Function that releases all the locks
+ */
+export const lockPaths = async (filePaths: string[]): Promise<() => void> => {
+    const keys = [...new Set(filePaths.map((filePath) => path.normalize(resolveDirectoryPath(filePath))))].sort();
+    const unlocks: (() => void)[] = [];
+    for (const key of keys) {
+        unlocks.push(await lockPath(key));
     }
+    return () => {
+        for (const unlock of unlocks) unlock();
+    };
 };
 
 /**
@@ -107,9 +424,11 @@ export const writeFile = async (
     filePath: string,
     content: string,
     mode?: number,
+    expectedHash?: string,
 ): Promise<{
     success: boolean;
     path: string;
+    hash?: string;
     error?: string;
 }> => {
     log.debug('writeFile called', { path: filePath, contentLength: content.length, mode });
@@ -117,12 +436,24 @@ export const writeFile = async (
         // Resolve path relative to /sandbox if it's a relative path
         const resolvedPath = path.isAbsolute(filePath) ? filePath : path.join(SANDBOX_DIR, filePath);
 
+        // Refuse to overwrite changes made since the caller read the file (empty hash: the file must not exist)
+        if (expectedHash !== undefined) {
+            const currentHash = (await getFileHash(resolvedPath)) ?? '';
+            if (currentHash !== expectedHash) {
+                let error = `File was modified since it was read (current hash ${currentHash}), read it again before writing`;
+                if (!currentHash) error = 'File does not exist, but expectedHash was given';
+                if (!expectedHash) error = 'File already exists, but an empty expectedHash requires that it does not';
+                return { success: false, path: resolvedPath, hash: currentHash || undefined, error };
+            }
+        }
+
         // Ensure directory exists
         const dir = path.dirname(resolvedPath);
-        await fs.mkdir(dir, { recursive: true });
+        const createdDir = await fs.mkdir(dir, { recursive: true });
 
         // Write the file
         await fs.writeFile(resolvedPath, content, 'utf8');
+        await chownToSandboxUser(resolvedPath, createdDir);
 
         // Set file mode if specified
         if (mode) {
@@ -133,6 +464,7 @@ export const writeFile = async (
         return {
             success: true,
             path: resolvedPath,
+            hash: hashContent(content),
         };
     } catch (error) {
         const err = error as Error;
@@ -146,31 +478,104 @@ export const writeFile = async (
 };
 
 /**
- * Read file contents
+ * Apply search/replace edits or a unified diff to a text file (see edits.ts)
+ * The new content is written to a temporary file that replaces the original by rename, so readers never see a
+ * partially edited file and a failed edit leaves it untouched. Callers hold the lock of the path (lockPath), so other
+ * requests cannot change the file between the expectedHash check and the write
+ * @returns The unified diff of the change and the new content hash; code tells why an edit failed
  */
-export const readFile = async (
+export const editFile = async (
     filePath: string,
+    request: EditRequest,
 ): Promise<{
-    content?: string;
+    success: boolean;
     path: string;
+    diff?: string;
+    hash?: string;
     error?: string;
+    code?: 'NOT_FOUND' | 'HASH_MISMATCH' | 'EDIT_FAILED';
 }> => {
-    log.debug('readFile called', { path: filePath });
+    log.debug('editFile called', { path: filePath, edits: request.edits?.length, diff: request.diff !== undefined });
     try {
-        // Resolve path relative to /sandbox if it's a relative path
-        const resolvedPath = path.isAbsolute(filePath) ? filePath : path.join(SANDBOX_DIR, filePath);
+        const resolvedPath = await resolveAndValidatePath(filePath);
+        let buffer: Buffer;
+        let stats: Stats;
+        try {
+            stats = await fs.stat(resolvedPath);
+            buffer = await fs.readFile(resolvedPath);
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+            return { success: false, path: resolvedPath, error: 'File not found', code: 'NOT_FOUND' };
+        }
 
-        const content = await fs.readFile(resolvedPath, 'utf8');
+        const currentHash = hashContent(buffer);
+        if (request.expectedHash !== undefined && request.expectedHash !== currentHash) {
+            return {
+                success: false,
+                path: resolvedPath,
+                hash: currentHash,
+                error: `File was modified since it was read (current hash ${currentHash}), read it again before editing`,
+                code: 'HASH_MISMATCH',
+            };
+        }
 
-        log.debug('readFile succeeded', { path: resolvedPath, contentLength: content.length });
+        // Decoding invalid UTF-8 replaces the invalid bytes, so writing back would corrupt the rest of the file
+        const content = buffer.toString('utf8');
+        if (!Buffer.from(content, 'utf8').equals(buffer)) {
+            return {
+                success: false,
+                path: resolvedPath,
+                hash: currentHash,
+                error: 'File is not valid UTF-8 text and cannot be edited, write it as a whole instead',
+                code: 'EDIT_FAILED',
+            };
+        }
+        const outcome = request.edits
+            ? applyTextEdits(content, request.edits)
+            : applyUnifiedDiff(content, request.diff ?? '');
+        if ('error' in outcome) {
+            return { success: false, path: resolvedPath, hash: currentHash, error: outcome.error, code: 'EDIT_FAILED' };
+        }
+
+        const diff = createUnifiedDiff(content, outcome.content, path.relative(SANDBOX_DIR, resolvedPath));
+        if (!request.dryRun && diff) {
+            // An execution may have changed the file while the edit was computed
+            if ((await getFileHash(resolvedPath)) !== currentHash) {
+                return {
+                    success: false,
+                    path: resolvedPath,
+                    error: 'File was modified while the edit was applied, read it again before editing',
+                    code: 'HASH_MISMATCH',
+                };
+            }
+            const tempPath = path.join(
+                path.dirname(resolvedPath),
+                `.${path.basename(resolvedPath)}.${crypto.randomBytes(4).toString('hex')}.tmp`,
+            );
+            try {
+                // Keep the permissions and owner of the original file
+                await fs.writeFile(tempPath, outcome.content);
+                await fs.chmod(tempPath, stats.mode % 0o10000);
+                await fs.chown(tempPath, stats.uid, stats.gid);
+                await fs.rename(tempPath, resolvedPath);
+            } catch (error) {
+                await fs.rm(tempPath, { force: true });
+                throw error;
+            }
+        }
+
+        log.debug('editFile succeeded', { path: resolvedPath, changed: diff.length > 0, dryRun: request.dryRun });
         return {
-            content,
+            success: true,
             path: resolvedPath,
+            diff,
+            hash: request.dryRun ? currentHash : hashContent(outcome.content),
         };
     } catch (error) {
         const err = error as Error;
-        log.debug('readFile failed', { path: filePath, error: err.message });
+        log.debug('editFile failed', { path: filePath, error: err.message });
         return {
+            success: false,
             path: filePath,
             error: err.message,
         };
@@ -178,78 +583,78 @@ export const readFile = async (
 };
 
 /**
- * List files in directory
+ * Read file contents
  */
-export const listFiles = async (
-    dirPath?: string,
+export const readFile = async (
+    filePath: string,
 ): Promise<{
+    content?: string;
     path: string;
-    files: {
-        name: string;
-        type: 'file' | 'directory';
-        path: string;
-    }[];
+    hash?: string;
     error?: string;
 }> => {
-    log.debug('listFiles called', { path: dirPath });
+    log.debug('readFile called', { path: filePath });
     try {
-        // Use /sandbox as default, or resolve relative paths relative to /sandbox
-        const targetPath = resolveDirectoryPath(dirPath);
-
-        const entries = await fs.readdir(targetPath, { withFileTypes: true });
+        // Resolve path relative to /sandbox if it's a relative path
+        const resolvedPath = path.isAbsolute(filePath) ? filePath : path.join(SANDBOX_DIR, filePath);
 
-        const files = entries.map((entry) => ({
-            name: entry.name,
-            type: entry.isDirectory() ? ('directory' as const) : ('file' as const),
-            path: path.join(targetPath, entry.name),
-        }));
+        const buffer = await fs.readFile(resolvedPath);
+        const content = buffer.toString('utf8');
 
-        log.debug('listFiles succeeded', { path: targetPath, fileCount: files.length });
+        log.debug('readFile succeeded', { path: resolvedPath, contentLength: content.length });
         return {
-            path: targetPath,
-            files,
+            content,
+            path: resolvedPath,
+            // Pass as expectedHash when writing the file back
+            hash: hashContent(buffer),
         };
     } catch (error) {
         const err = error as Error;
-        const targetPath = resolveDirectoryPath(dirPath);
-        log.debug('listFiles failed', { path: targetPath, error: err.message });
+        log.debug('readFile failed', { path: filePath, error: err.message });
         return {
-            path: targetPath,
-            files: [],
+            path: filePath,
             error: err.message,
         };
     }
 };
 
 /**
- * Execute code in a specified language (JS, TS, or Python)
+ * Execute code with a registered language runtime (see runtimes.ts)
  *
  * IMPORTANT: Each code execution spawns a new interpreter process to ensure isolation.
  * This prevents agents from using variables from previous code executions.
  * While this ensures security and isolation, it means each execution starts fresh
- * with no access to state from previous executions. Consider this limitation when
- * designing multi-step agent workflows that require shared state.
+ * with no access to state from previous executions. Multi-step agent workflows that
+ * require shared state should use a kernel instead (see kernels.ts).
  */
 export const executeCode = async (
     code: string,
-    language: 'js' | 'ts' | 'py',
+    language: string,
     timeout?: number,
     cwd?: string,
+    options: ExecutionOptions = {},
 ): Promise<{
     stdout: string;
     stderr: string;
     exitCode: number;
     language: string;
+    timedOut?: boolean;
+    signal?: NodeJS.Signals | null;
+    durationMs?: number;
+    limitExceeded?: ExceededLimit | null;
+    artifacts?: Artifact[];
+    dependencies?: DependencyInstallReport;
 }> => {
     log.debug('executeCode called', { language, codeLength: code.length, timeout, cwd });
     const tempFiles: string[] = [];
 
     try {
-        // Validate language
-        if (!['js', 'ts', 'py'].includes(language)) {
+        // Resolve the runtime (the shell runtime runs code inline via runCommand)
+        const runtime = resolveRuntime(language);
+        if (!runtime || runtime.inline) {
             return {
                 stdout: '',
-                stderr: `Unsupported language: ${language}. Supported languages: js, ts, py`,
+                stderr: `Unsupported language: ${language}. Supported languages: ${getSupportedLanguages().join(', ')}`,
                 exitCode: 1,
                 language,
             };
@@ -261,38 +666,20 @@ export const executeCode = async (
                 stdout: '',
                 stderr: 'Code cannot be empty',
                 exitCode: 1,
-                language,
+                language: runtime.name,
             };
         }
 
         // Generate unique filename using random ID (not SHA256 hash for efficiency)
         const uniqueId = crypto.randomBytes(6).toString('hex');
-        const fileExtensions: Record<string, string> = {
-            js: '.js',
-            ts: '.ts',
-            py: '.py',
-        };
-        const tempFile = path.join('/tmp', `code-${uniqueId}${fileExtensions[language]}`);
+        const tempFile = path.join('/tmp', `code-${uniqueId}${runtime.extension}`);
 
         // Write code to file
         await fs.writeFile(tempFile, code, 'utf8');
         tempFiles.push(tempFile);
 
-        let command: string;
-        let executionDir: string;
-
-        // Build command based on language and set execution directory
-        if (language === 'js') {
-            command = `node ${tempFile}`;
-            executionDir = JS_TS_CODE_DIR;
-        } else if (language === 'ts') {
-            command = `tsx ${tempFile}`;
-            executionDir = JS_TS_CODE_DIR;
-        } else {
-            // language === 'py'
-            command = `python ${tempFile}`;
-            executionDir = PYTHON_CODE_DIR;
-        }
+        const command = buildRuntimeCommand(runtime, tempFile, options.args);
+        let executionDir = runtime.cwd;
 
         // If custom cwd is provided, use it (after validation)
         if (cwd) {
@@ -312,31 +699,52 @@ export const executeCode = async (
             executionDir = normalizedCwd;
         }
 
-        const execOptions: { cwd?: string; timeout?: number; env?: NodeJS.ProcessEnv } = {
-            env: getExecutionEnvironment(),
-            cwd: executionDir,
-        };
-
-        if (timeout) {
-            execOptions.timeout = timeout;
+        // Install the packages declared in the inline script metadata, reported apart from the program output
+        // The install counts against the execution timeout
+        const dependencies = await installInlineDependencies(code, runtime.name, {
+            timeout,
+            abortSignal: options.abortSignal,
+        });
+        if (typeof dependencies === 'string') {
+            return { stdout: '', stderr: dependencies, exitCode: 1, language: runtime.name };
+        }
+        if (dependencies && dependencies.failed.length > 0) {
+            return {
+                stdout: '',
+                stderr: `Failed to install dependencies: ${dependencies.failed.map((entry) => entry.library).join(', ')}`,
+                exitCode: 1,
+                language: runtime.name,
+                timedOut: dependencies.timedOut,
+                dependencies,
+            };
         }
+        const remainingTimeout = timeout && dependencies ? Math.max(1, timeout - dependencies.durationMs) : timeout;
 
-        const { stdout, stderr } = await execAsync(command, execOptions);
+        const result = await spawnCommand(command, executionDir, remainingTimeout, options);
 
-        log.debug('executeCode succeeded', { language, exitCode: 0 });
+        if (result.exitCode === 0) {
+            log.debug('executeCode succeeded', { language, exitCode: 0 });
+        } else {
+            log.debug('executeCode failed', {
+                language,
+                exitCode: result.exitCode,
+                timedOut: result.timedOut,
+                signal: result.signal,
+                limitExceeded: result.limitExceeded,
+            });
+        }
         return {
-            stdout,
-            stderr,
-            exitCode: 0,
-            language,
+            ...result,
+            language: runtime.name,
+            dependencies,
         };
     } catch (error) {
-        const err = error as { message: string; stdout?: string; stderr?: string; code?: number };
-        log.debug('executeCode failed', { language, error: err.message, exitCode: err.code || 1 });
+        const err = error as Error;
+        log.debug('executeCode failed', { language, error: err.message, exitCode: 1 });
         return {
-            stdout: err.stdout || '',
-            stderr: err.stderr || err.message || 'Code execution failed',
-            exitCode: err.code || 1,
+            stdout: '',
+            stderr: err.message || 'Code execution failed',
+            exitCode: 1,
             language,
         };
     } finally {
@@ -351,6 +759,72 @@ export const executeCode = async (
     }
 };
 
+/**
+ * Script in /sandbox with the runtime that runs it
+ */
+export interface ExecutableFile {
+    path: string;
+    runtime: Runtime;
+}
+
+/**
+ * Resolve a script to execute and its runtime
+ * @param file - Path of the script, relative paths are resolved against /sandbox
+ * @param language - Runtime name or alias; detected from the file extension if omitted
+ * @returns The file and runtime, or an error message
+ */
+export const resolveExecutableFile = async (file: string, language?: string): Promise<ExecutableFile | string> => {
+    const filePath = path.normalize(path.isAbsolute(file) ? file : path.join(SANDBOX_DIR, file));
+    if (!filePath.startsWith(SANDBOX_DIR)) return `Access denied: File ${file} is outside of sandbox`;
+
+    const runtime = language ? resolveRuntime(language) : resolveRuntimeByExtension(path.extname(filePath));
+    if (!runtime) {
+        return language
+            ? `Invalid language: ${language}. Supported: ${getSupportedLanguages().join(', ')}`
+            : `Cannot detect the language of ${file} from its extension, pass language`;
+    }
+
+    try {
+        if (!(await fs.stat(filePath)).isFile()) return `Not a file: ${file}`;
+    } catch {
+        return `File not found: ${file}`;
+    }
+    return { path: filePath, runtime };
+};
+
+/**
+ * Execute a script from the sandbox with its runtime
+ * The file must be resolved with resolveExecutableFile first; the default working directory is the runtime's
+ */
+export const executeFile = async (
+    file: ExecutableFile,
+    timeout?: number,
+    cwd?: string,
+    options: ExecutionOptions = {},
+): Promise<Awaited<ReturnType<typeof executeCode>>> => {
+    const { runtime } = file;
+    log.debug('executeFile called', { path: file.path, language: runtime.name, args: options.args, timeout, cwd });
+
+    const executionDir = cwd ? path.normalize(path.isAbsolute(cwd) ? cwd : path.join(SANDBOX_DIR, cwd)) : runtime.cwd;
+    if (!executionDir.startsWith(SANDBOX_DIR)) {
+        return {
+            stdout: '',
+            stderr: `Access denied: Working directory ${cwd} is outside of sandbox`,
+            exitCode: 1,
+            language: runtime.name,
+        };
+    }
+
+    const result = await spawnCommand(
+        buildRuntimeCommand(runtime, file.path, options.args),
+        executionDir,
+        timeout,
+        options,
+    );
+    log.debug('executeFile completed', { path: file.path, exitCode: result.exitCode });
+    return { ...result, language: runtime.name };
+};
+
 /**
  * Get file or directory metadata
  */
@@ -450,10 +924,11 @@ export const writeFileBinary = async (
 
         // Ensure directory exists
         const dir = path.dirname(normalizedPath);
-        await fs.mkdir(dir, { recursive: true });
+        const createdDir = await fs.mkdir(dir, { recursive: true });
 
         // Write the file
         await fs.writeFile(normalizedPath, content);
+        await chownToSandboxUser(normalizedPath, createdDir);
 
         // Set file mode if specified
         if (mode) {
@@ -504,10 +979,11 @@ export const appendFile = async (
 
         // Ensure directory exists
         const dir = path.dirname(normalizedPath);
-        await fs.mkdir(dir, { recursive: true });
+        const createdDir = await fs.mkdir(dir, { recursive: true });
 
         // Append to the file
         await fs.appendFile(normalizedPath, content);
+        await chownToSandboxUser(normalizedPath, createdDir);
 
         // Get final size
         const stats = await fs.stat(normalizedPath);
@@ -551,7 +1027,8 @@ export const createDirectory = async (
         }
 
         // Create directory recursively
-        await fs.mkdir(normalizedPath, { recursive: true });
+        const createdDir = await fs.mkdir(normalizedPath, { recursive: true });
+        if (createdDir) await chownToSandboxUser(normalizedPath, createdDir);
 
         log.debug('createDirectory succeeded', { path: normalizedPath });
         return {
@@ -621,21 +1098,240 @@ export const deleteFileOrDirectory = async (
 };
 
 /**
- * List files in directory with size information and sorting
+ * Directory entry returned by listFilesDetailed
+ */
+export interface FileEntry {
+    name: string;
+    /**
+     * Path relative to the listed directory (equal to name for direct children)
+     */
+    path: string;
+    type: 'file' | 'directory';
+    size?: number;
+    /**
+     * ISO 8601 last modification time
+     */
+    mtime?: string;
+    /**
+     * Permission bits in octal, e.g. "0644"
+     */
+    mode?: string;
+    /**
+     * Target of a symbolic link; type and size describe the file it points to
+     */
+    target?: string;
+}
+
+/**
+ * Options of listFilesDetailed (GET /fs/* query parameters and the MCP list-files tool)
+ */
+export interface ListOptions {
+    /**
+     * Descend into subdirectories (without limit unless depth is set)
+     */
+    recursive?: boolean;
+    /**
+     * Maximum depth of listed entries, 1 = direct children
+     */
+    depth?: number;
+    /**
+     * Globs matched against the relative path; patterns without a slash match the name at any depth
+     * Only matching entries are returned, but all directories are still descended into
+     */
+    include?: string[];
+    /**
+     * Globs of entries to leave out; excluded directories are not descended into
+     */
+    exclude?: string[];
+    /**
+     * Include entries whose name starts with a dot (default true)
+     */
+    hidden?: boolean;
+    /**
+     * Leave out .git and the entries ignored by .gitignore files in the listed directory and below
+     */
+    gitignore?: boolean;
+    /**
+     * name (default), size or mtime; prefix with - for descending order
+     */
+    sort?: string;
+    /**
+     * Maximum number of entries per page
+     */
+    limit?: number;
+    /**
+     * nextCursor of the previous page
+     */
+    cursor?: string;
+}
+
+const LIST_SORT_KEYS = ['name', 'size', 'mtime'];
+
+/**
+ * Validate listing options
+ * @returns Error message, or null if the options are valid
+ */
+export const validateListOptions = (options: ListOptions): string | null => {
+    for (const key of ['depth', 'limit'] as const) {
+        const value = options[key];
+        if (value !== undefined && (!Number.isInteger(value) || value < 1)) {
+            return `${key} must be a positive integer`;
+        }
+    }
+    if (options.sort !== undefined && !LIST_SORT_KEYS.includes(options.sort.replace(/^-/, ''))) {
+        return `sort must be one of ${LIST_SORT_KEYS.join(', ')}, optionally prefixed with - for descending order`;
+    }
+    if (options.cursor !== undefined && !/^\d+$/.test(options.cursor)) {
+        return 'Invalid cursor';
+    }
+    for (const key of ['include', 'exclude'] as const) {
+        const patterns = options[key];
+        if (patterns !== undefined && (!Array.isArray(patterns) || patterns.some((p) => typeof p !== 'string' || !p))) {
+            return `${key} must be an array of non-empty glob patterns`;
+        }
+    }
+    return null;
+};
+
+/**
+ * Describe a directory entry, following symbolic links for type and size
+ */
+const describeEntry = async (fullPath: string, relativePath: string): Promise<FileEntry> => {
+    const entry: FileEntry = { name: path.basename(fullPath), path: relativePath, type: 'file' };
+    let stats = await fs.lstat(fullPath);
+    if (stats.isSymbolicLink()) {
+        entry.target = await fs.readlink(fullPath);
+        try {
+            stats = await fs.stat(fullPath);
+        } catch {
+            // Broken link: describe the link itself
+        }
+    }
+    if (stats.isDirectory()) {
+        entry.type = 'directory';
+    } else if (stats.isFile()) {
+        entry.size = stats.size;
+    }
+    entry.mtime = stats.mtime.toISOString();
+    entry.mode = `0${(stats.mode % 0o1000).toString(8).padStart(3, '0')}`;
+    return entry;
+};
+
+/**
+ * Collect the entries of a directory tree that pass the filters of the options
+ * Symlinked directories are listed but not descended into, which keeps the walk inside the tree and free of cycles
+ */
+export const collectEntries = async (
+    root: string,
+    options: ListOptions,
+): Promise<{ entries: FileEntry[]; truncated: boolean }> => {
+    let maxDepth = options.depth ?? 1;
+    if (options.recursive && options.depth === undefined) maxDepth = Infinity;
+    const toMatchers = (patterns: string[] = []) =>
+        patterns.map((pattern) => new Minimatch(pattern, { dot: true, matchBase: !pattern.includes('/') }));
+    const include = toMatchers(options.include);
+    const exclude = toMatchers(options.exclude);
+    // .gitignore rules of the directories on the current walk path, with their paths relative to the root
+    const gitignores: { base: string; rules: Ignore }[] = [];
+    const isGitignored = (relativePath: string, isDirectory: boolean) =>
+        gitignores.some(({ base, rules }) => {
+            const pathFromBase = base ? relativePath.slice(base.length + 1) : relativePath;
+            return rules.ignores(isDirectory ? `${pathFromBase}/` : pathFromBase);
+        });
+
+    const entries: FileEntry[] = [];
+    let truncated = false;
+
+    const visit = async (dir: string, relativeDir: string, level: number): Promise<void> => {
+        let hasGitignore = false;
+        if (options.gitignore) {
+            try {
+                gitignores.push({
+                    base: relativeDir,
+                    // The CommonJS build of ignore exports its factory as default too, which is what NodeNext types see
+                    rules: ignore.default().add(await fs.readFile(path.join(dir, '.gitignore'), 'utf8')),
+                });
+                hasGitignore = true;
+            } catch {
+                // No .gitignore in this directory
+            }
+        }
+
+        const dirents = await fs.readdir(dir, { withFileTypes: true });
+        for (const dirent of dirents) {
+            if (entries.length >= MAX_LISTED_ENTRIES) {
+                truncated = true;
+                break;
+            }
+            const relativePath = relativeDir ? `${relativeDir}/${dirent.name}` : dirent.name;
+            if (options.hidden === false && dirent.name.startsWith('.')) continue;
+            if (options.gitignore && (dirent.name === '.git' || isGitignored(relativePath, dirent.isDirectory()))) {
+                continue;
+            }
+            if (exclude.some((matcher) => matcher.match(relativePath))) continue;
+
+            const fullPath = path.join(dir, dirent.name);
+            let entry: FileEntry;
+            try {
+                entry = await describeEntry(fullPath, relativePath);
+            } catch {
+                // Removed while listing
+                continue;
+            }
+            if (include.length === 0 || include.some((matcher) => matcher.match(relativePath))) entries.push(entry);
+            if (dirent.isDirectory() && level < maxDepth) {
+                try {
+                    await visit(fullPath, relativePath, level + 1);
+                } catch (error) {
+                    log.debug('Skipping unreadable directory', { path: fullPath, error: (error as Error).message });
+                }
+            }
+        }
+
+        if (hasGitignore) gitignores.pop();
+    };
+
+    await visit(root, '', 1);
+    return { entries, truncated };
+};
+
+/**
+ * Compare entries by the sort option; name sorts by path so that recursive listings keep their tree order
+ */
+export const compareEntries = (sort: string) => {
+    const key = sort.replace(/^-/, '');
+    const direction = sort.startsWith('-') ? -1 : 1;
+    const byName = (a: FileEntry, b: FileEntry) => a.path.toLowerCase().localeCompare(b.path.toLowerCase());
+    return (a: FileEntry, b: FileEntry): number => {
+        let difference = 0;
+        if (key === 'size') difference = (a.size ?? -1) - (b.size ?? -1);
+        if (key === 'mtime') difference = Date.parse(a.mtime ?? '') - Date.parse(b.mtime ?? '');
+        return (difference || byName(a, b)) * direction;
+    };
+};
+
+/**
+ * List files in directory with metadata, filtering, sorting and pagination
+ * @param dirPath - Directory to list (defaults to /sandbox)
+ * @param options - Recursion, filters, sorting and pagination (see ListOptions)
+ * @returns Entries of the current page, the total number of matching entries, and nextCursor if more pages follow
  */
 export const listFilesDetailed = async (
     dirPath?: string,
+    options: ListOptions = {},
 ): Promise<{
     path: string;
     type: 'directory';
-    entries: {
-        name: string;
-        type: 'file' | 'directory';
-        size?: number;
-    }[];
+    entries: FileEntry[];
+    total?: number;
+    nextCursor?: string;
+    /**
+     * Set when the walk stopped at MAX_LISTED_ENTRIES
+     */
+    truncated?: boolean;
     error?: string;
 }> => {
-    log.debug('listFilesDetailed called', { path: dirPath });
+    log.debug('listFilesDetailed called', { path: dirPath, options });
     try {
         // Use /sandbox as default, or resolve relative paths relative to /sandbox
         const targetPath = resolveDirectoryPath(dirPath);
@@ -643,37 +1339,27 @@ export const listFilesDetailed = async (
         // Validate path is within sandbox
         const resolvedPath = await resolveAndValidatePath(targetPath);
 
-        const entries = await fs.readdir(resolvedPath, { withFileTypes: true });
-
-        // Get size information for files
-        const entriesWithSize = await Promise.all(
-            entries.map(async (entry) => {
-                const fullPath = path.join(resolvedPath, entry.name);
-                let size: number | undefined;
-                if (entry.isFile()) {
-                    try {
-                        const stats = await fs.stat(fullPath);
-                        size = stats.size;
-                    } catch {
-                        size = undefined;
-                    }
-                }
-                return {
-                    name: entry.name,
-                    type: entry.isDirectory() ? ('directory' as const) : ('file' as const),
-                    size,
-                };
-            }),
-        );
+        const { entries, truncated } = await collectEntries(resolvedPath, options);
 
-        // Sort alphabetically by name (case-insensitive), like ls default
-        entriesWithSize.sort((a, b) => a.name.toLowerCase().localeCompare(b.name.toLowerCase()));
+        // Sort alphabetically by name (case-insensitive) by default, like ls
+        entries.sort(compareEntries(options.sort ?? 'name'));
 
-        log.debug('listFilesDetailed succeeded', { path: resolvedPath, entryCount: entriesWithSize.length });
+        const offset = options.cursor ? parseInt(options.cursor, 10) : 0;
+        const end = options.limit ? offset + options.limit : entries.length;
+        const page = entries.slice(offset, end);
+
+        log.debug('listFilesDetailed succeeded', {
+            path: resolvedPath,
+            entryCount: page.length,
+            total: entries.length,
+        });
         return {
             path: resolvedPath,
             type: 'directory',
-            entries: entriesWithSize,
+            entries: page,
+            total: entries.length,
+            ...(end < entries.length ? { nextCursor: String(end) } : {}),
+            ...(truncated ? { truncated } : {}),
         };
     } catch (error) {
         const err = error as Error;
@@ -688,6 +1374,140 @@ export const listFilesDetailed = async (
     }
 };
 
+export interface TransferOptions {
+    /**
+     * Replace an existing destination
+     */
+    overwrite?: boolean;
+    /**
+     * Copy directories with their contents (moves always include the contents)
+     */
+    recursive?: boolean;
+}
+
+/**
+ * Result of movePath and copyPath; code tells why the operation was refused
+ */
+export interface TransferResult {
+    success: boolean;
+    /**
+     * Destination path
+     */
+    path: string;
+    source: string;
+    type?: 'file' | 'directory';
+    error?: string;
+    code?: 'NOT_FOUND' | 'ACCESS_DENIED' | 'DESTINATION_EXISTS' | 'INVALID_DESTINATION' | 'RECURSIVE_REQUIRED';
+}
+
+/**
+ * Move or copy a file or directory to an exact destination path (not into a destination directory)
+ * Both paths are validated to be inside /sandbox; a symlink is moved or copied as a link
+ */
+const transferPath = async (
+    operation: 'move' | 'copy',
+    source: string,
+    destination: string,
+    options: TransferOptions,
+): Promise<TransferResult> => {
+    log.debug('transferPath called', { operation, source, destination, ...options });
+    const sourcePath = path.normalize(resolveDirectoryPath(source));
+    const destinationPath = path.normalize(resolveDirectoryPath(destination));
+    const fail = (error: string, code?: TransferResult['code']): TransferResult => ({
+        success: false,
+        path: destinationPath,
+        source: sourcePath,
+        error,
+        code,
+    });
+
+    try {
+        // The destination and its parents may not exist yet, so every ancestor is checked for symlinks out of /sandbox
+        const targets = [sourcePath];
+        for (let dir = destinationPath; dir.startsWith(SANDBOX_DIR) && dir !== SANDBOX_DIR; dir = path.dirname(dir)) {
+            targets.push(dir);
+        }
+        if (!destinationPath.startsWith(SANDBOX_DIR)) targets.push(destinationPath);
+        for (const target of targets) {
+            try {
+                await resolveAndValidatePath(target);
+            } catch (error) {
+                return fail((error as Error).message, 'ACCESS_DENIED');
+            }
+        }
+        if (sourcePath === SANDBOX_DIR || destinationPath === SANDBOX_DIR) {
+            return fail(`Cannot ${operation} the sandbox root directory`, 'INVALID_DESTINATION');
+        }
+
+        let stats: Stats;
+        try {
+            stats = await fs.lstat(sourcePath);
+        } catch {
+            return fail('Source not found', 'NOT_FOUND');
+        }
+        const type = stats.isDirectory() ? 'directory' : 'file';
+        if (destinationPath === sourcePath) {
+            return fail('Source and destination are the same', 'INVALID_DESTINATION');
+        }
+        if (type === 'directory' && destinationPath.startsWith(`${sourcePath}/`)) {
+            return fail(`Cannot ${operation} a directory into itself`, 'INVALID_DESTINATION');
+        }
+        if (operation === 'copy' && type === 'directory' && !options.recursive) {
+            return fail('Source is a directory, set recursive to copy it with its contents', 'RECURSIVE_REQUIRED');
+        }
+
+        const existing = await fs.lstat(destinationPath).catch(() => undefined);
+        if (existing) {
+            if (!options.overwrite)
+                return fail('Destination already exists, set overwrite to replace it', 'DESTINATION_EXISTS');
+            // Files are replaced in place; a directory on either side cannot be, so the destination goes first
+            if (existing.isDirectory() || type === 'directory') await fs.rm(destinationPath, { recursive: true });
+        }
+
+        const createdDir = await fs.mkdir(path.dirname(destinationPath), { recursive: true });
+        if (operation === 'move') {
+            await fs.rename(sourcePath, destinationPath);
+            if (createdDir) await chownToSandboxUser(path.dirname(destinationPath), createdDir);
+        } else if (getUserSpawnOptions().uid === undefined) {
+            await fs.cp(sourcePath, destinationPath, { recursive: true, verbatimSymlinks: true, force: true });
+        } else {
+            // Copying as root would create root-owned copies that keep setuid bits of files the sandbox user
+            // controls, so the copy itself runs as that user
+            if (createdDir) await chownToSandboxUser(path.dirname(destinationPath), createdDir);
+            try {
+                await execFileAsync('cp', ['-af', '-T', '--', sourcePath, destinationPath], getUserSpawnOptions());
+            } catch (error) {
+                return fail((error as { stderr?: string }).stderr?.trim() || (error as Error).message);
+            }
+        }
+
+        log.debug('transferPath succeeded', { operation, source: sourcePath, destination: destinationPath });
+        return { success: true, path: destinationPath, source: sourcePath, type };
+    } catch (error) {
+        const err = error as Error;
+        log.debug('transferPath failed', { operation, source, destination, error: err.message });
+        return fail(err.message);
+    }
+};
+
+/**
+ * Move or rename a file or directory
+ */
+export const movePath = async (
+    source: string,
+    destination: string,
+    options: TransferOptions = {},
+): Promise<TransferResult> => transferPath('move', source, destination, options);
+
+/**
+ * Copy a file, or a directory with recursive
+ */
+export const copyPath = async (
+    source: string,
+    destination: string,
+    options: TransferOptions = {},
+): Promise<TransferResult> => transferPath('copy', source, destination, options);
+
 /**
  * Create a ZIP archive of a directory and return as stream
  */
@@ -7,7 +7,8 @@
  */
 
 import { exec } from 'node:child_process';
-import { existsSync, readFileSync, statSync, writeFileSync } from 'node:fs';
+import { chmodSync, chownSync, existsSync, mkdirSync, readFileSync, rmSync, statSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
 import { promisify } from 'node:util';
 
 import { Actor, log } from 'apify';
@@ -18,9 +19,12 @@ import {
     KV_MIGRATION_MANIFEST,
     KV_MIGRATION_TARBALL,
     MIGRATION_EXCLUDED_PATHS,
+    MIGRATION_REDACTED_DIR,
     PYTHON_BIN_DIR,
     STARTUP_MARKER_PATH,
 } from './consts.js';
+import { redactSecretsInBuffer, unredactSecretsInBuffer } from './secrets.js';
+import { getUserSpawnOptions } from './user.js';
 
 const execAsync = promisify(exec);
 
@@ -41,6 +45,10 @@ export interface MigrationManifest {
         totalSize: number;
         paths: string[];
     };
+    /**
+     * Files stored with secret values replaced by placeholders (restored from the secrets input)
+     */
+    redactedFiles?: string[];
 }
 
 /**
@@ -160,8 +168,8 @@ export const generatePipFreeze = async (): Promise<string[]> => {
     }
 
     try {
-        // Get current pip freeze
-        const { stdout } = await execAsync(`${pipBinary} freeze`, { timeout: 10000 });
+        // Get current pip freeze; the venv belongs to the sandbox user, so its pip must not run as root
+        const { stdout } = await execAsync(`${pipBinary} freeze`, { timeout: 10000, ...getUserSpawnOptions() });
         const currentPackages = new Set(
             stdout
                 .trim()
@@ -212,6 +220,41 @@ export const generatePackageManifests = async (): Promise<MigrationManifest['pac
     return { apt, pip };
 };
 
+/**
+ * Stage copies of changed files that contain secrets, with the secret values replaced by placeholders
+ * The staged copies are stored under MIGRATION_REDACTED_DIR and mapped back to their original path in the tarball
+ * @param files - Array of changed file paths
+ * @returns File list for the tarball and the original paths of redacted files
+ */
+export const redactMigrationFiles = (files: string[]): { files: string[]; redactedFiles: string[] } => {
+    rmSync(MIGRATION_REDACTED_DIR, { recursive: true, force: true });
+
+    const redactedFiles: string[] = [];
+    const tarballFiles = files.map((file) => {
+        try {
+            const redacted = redactSecretsInBuffer(readFileSync(file));
+            if (!redacted) return file;
+
+            const stats = statSync(file);
+            const stagedPath = path.join(MIGRATION_REDACTED_DIR, file);
+            mkdirSync(path.dirname(stagedPath), { recursive: true });
+            writeFileSync(stagedPath, redacted);
+            chmodSync(stagedPath, stats.mode);
+            chownSync(stagedPath, stats.uid, stats.gid);
+            redactedFiles.push(file);
+            return stagedPath;
+        } catch {
+            // File may have been deleted or is unreadable, let tar handle it
+            return file;
+        }
+    });
+
+    if (redactedFiles.length > 0) {
+        log.info('Redacted secrets from files in migration state', { count: redactedFiles.length });
+    }
+    return { files: tarballFiles, redactedFiles };
+};
+
 /**
  * Create tarball from list of changed files
  * @param files - Array of file paths to include
@@ -235,7 +278,8 @@ export const createMigrationTarball = async (files: string[]): Promise<string> =
         writeFileSync(fileListPath, files.join('\n'));
 
         // Create tarball using native tar command (preserves permissions and ownership)
-        const tarCommand = `tar -czf ${tarballPath} -P --files-from=${fileListPath} 2>/dev/null || true`;
+        // Redacted copies are stored under their original path
+        const tarCommand = `tar -czf ${tarballPath} -P --transform='s,^${MIGRATION_REDACTED_DIR}/,/,' --files-from=${fileListPath} 2>/dev/null || true`;
 
         await execAsync(tarCommand, {
             timeout: 60000, // 60 second timeout
@@ -302,8 +346,11 @@ export const saveMigrationState = async (): Promise<void> => {
             pipPackages: manifest.packages.pip.length,
         });
 
-        // Step 3: Create tarball
-        const tarballPath = await createMigrationTarball(changedFiles);
+        // Step 3: Create tarball (secrets are never uploaded to the KV store)
+        const { files: tarballFiles, redactedFiles } = redactMigrationFiles(changedFiles);
+        manifest.redactedFiles = redactedFiles;
+        const tarballPath = await createMigrationTarball(tarballFiles);
+        rmSync(MIGRATION_REDACTED_DIR, { recursive: true, force: true });
 
         // Step 4: Upload tarball to KV store
         const tarballBuffer = readFileSync(tarballPath);
@@ -326,6 +373,8 @@ export const saveMigrationState = async (): Promise<void> => {
 
 /**
  * Reinstall packages from manifest
+ * pip and npm run as the sandbox user once it is set up, since it owns the venv and node_modules; during the startup
+ * restore they are still the image's root-owned copies (both directories are excluded from migration tarballs)
  * @param packages - Package manifest
  */
 export const reinstallPackages = async (packages: MigrationManifest['packages']): Promise<void> => {
@@ -410,7 +459,7 @@ export const reinstallPackages = async (packages: MigrationManifest['packages'])
             const pipCommand = `${pipBinary} install -r ${requirementsPath}`;
             log.info('Running pip install...');
 
-            await execAsync(pipCommand, { timeout: 300000 });
+            await execAsync(pipCommand, { timeout: 300000, ...getUserSpawnOptions() });
 
             log.info(`Successfully reinstalled ${packages.pip.length} PIP packages`);
         } catch (error) {
@@ -435,6 +484,7 @@ export const reinstallPackages = async (packages: MigrationManifest['packages'])
             await execAsync('npm install', {
                 cwd: JS_TS_CODE_DIR,
                 timeout: 300000, // 5 minute timeout
+                ...getUserSpawnOptions(),
             });
 
             log.info('NPM packages reinstalled successfully');
@@ -493,6 +543,15 @@ export const restoreMigrationState = async (): Promise<boolean> => {
             });
 
             log.info('Tarball extracted successfully');
+
+            // Put secret values back into files that were redacted before upload
+            for (const file of manifest.redactedFiles ?? []) {
+                try {
+                    writeFileSync(file, unredactSecretsInBuffer(readFileSync(file)));
+                } catch (error) {
+                    log.warning('Failed to restore secrets in file', { file, error: (error as Error).message });
+                }
+            }
         } else {
             log.info('No files to restore (empty tarball)');
         }
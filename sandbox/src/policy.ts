@@ -0,0 +1,166 @@
+// Command policy: allow/deny rules for commands and code from the Actor input
+// Rules are evaluated in order and the first matching rule decides; without a match the default action applies.
+// Matching is pattern-based and meant to stop accidents and obvious abuse by semi-trusted agents, it is not
+// a security boundary. Commands typed into the interactive shell and /exec/pty cannot be checked, so these are
+// disabled when the default action is deny and not covered otherwise
+import path from 'node:path';
+
+import { log } from 'apify';
+
+import { SANDBOX_DIR } from './consts.js';
+import { resolveRuntime } from './runtimes.js';
+import type { CommandPolicy, CommandPolicyRule } from './types.js';
+
+/**
+ * Rule with its patterns compiled
+ */
+interface CompiledRule {
+    index: number;
+    rule: CommandPolicyRule;
+    command?: RegExp;
+    cwd?: RegExp;
+    languages?: string[];
+}
+
+/**
+ * Execution request checked against the policy
+ */
+export interface PolicySubject {
+    /**
+     * Shell command or code snippet
+     */
+    command: string;
+    /**
+     * Runtime name or alias, omitted for shell commands
+     */
+    language?: string;
+    /**
+     * Working directory (relative paths are resolved against /sandbox, defaults to the runtime directory)
+     */
+    cwd?: string;
+    /**
+     * Program arguments, matched together with the command (joined by spaces)
+     */
+    args?: string[];
+}
+
+let defaultAction: 'allow' | 'deny' = 'allow';
+let rules: CompiledRule[] = [];
+
+/**
+ * Compile a rule pattern
+ * Patterns are regular expressions in multiline mode, so ^ and $ match at every line of a script
+ */
+const compilePattern = (pattern: string): RegExp => new RegExp(pattern, 'm');
+
+/**
+ * Canonical language name used for matching ('shell' for shell commands and unknown languages)
+ */
+const getLanguageName = (language?: string): string => {
+    const runtime = language ? resolveRuntime(language) : undefined;
+    return runtime && !runtime.inline ? runtime.name : 'shell';
+};
+
+/**
+ * Absolute working directory of an execution (the runtime directory if no cwd is given)
+ */
+const getWorkingDirectory = (language?: string, cwd?: string): string => {
+    const runtime = language ? resolveRuntime(language) : undefined;
+    return path.resolve(SANDBOX_DIR, cwd || (runtime?.cwd ?? SANDBOX_DIR));
+};
+
+/**
+ * Validate the command policy input
+ * @returns Error message, or null if the policy is valid
+ */
+export const validateCommandPolicy = (input: unknown): string | null => {
+    if (input === undefined || input === null) return null;
+    if (typeof input !== 'object' || Array.isArray(input)) return 'commandPolicy must be an object';
+    const policy = input as CommandPolicy;
+    if (policy.defaultAction !== undefined && policy.defaultAction !== 'allow' && policy.defaultAction !== 'deny') {
+        return `Invalid defaultAction: ${policy.defaultAction}. Supported: allow, deny`;
+    }
+    if (policy.rules === undefined) return null;
+    if (!Array.isArray(policy.rules)) return 'commandPolicy.rules must be an array';
+
+    for (const [index, rule] of policy.rules.entries()) {
+        const prefix = `Invalid rule ${index}`;
+        if (!rule || typeof rule !== 'object') return `${prefix}: must be an object`;
+        if (rule.action !== 'allow' && rule.action !== 'deny') return `${prefix}: action must be allow or deny`;
+        if (
+            rule.languages !== undefined &&
+            (!Array.isArray(rule.languages) || rule.languages.some((name) => typeof name !== 'string'))
+        ) {
+            return `${prefix}: languages must be an array of language names`;
+        }
+        if (rule.reason !== undefined && typeof rule.reason !== 'string') return `${prefix}: reason must be a string`;
+        for (const key of ['command', 'cwd'] as const) {
+            const pattern = rule[key];
+            if (pattern === undefined) continue;
+            if (typeof pattern !== 'string') return `${prefix}: ${key} must be a regular expression string`;
+            try {
+                compilePattern(pattern);
+            } catch (error) {
+                return `${prefix}: invalid ${key} pattern: ${(error as Error).message}`;
+            }
+        }
+    }
+    return null;
+};
+
+/**
+ * Set the policy applied to all executions (from Actor input)
+ * The policy must be validated with validateCommandPolicy first
+ */
+export const setCommandPolicy = (policy: CommandPolicy = {}): void => {
+    defaultAction = policy.defaultAction ?? 'allow';
+    rules = (policy.rules ?? []).map((rule, index) => ({
+        index,
+        rule,
+        command: rule.command === undefined ? undefined : compilePattern(rule.command),
+        cwd: rule.cwd === undefined ? undefined : compilePattern(rule.cwd),
+        languages: rule.languages?.map((name) => resolveRuntime(name)?.name ?? name.toLowerCase()),
+    }));
+    if (rules.length > 0 || defaultAction === 'deny') {
+        log.info('Command policy configured', { defaultAction, rules: rules.length });
+    }
+};
+
+/**
+ * Whether executions that match no rule are denied (interactive shells are disabled then)
+ */
+export const isDefaultDeny = (): boolean => defaultAction === 'deny';
+
+/**
+ * Check an execution against the command policy
+ * Violations are logged
+ * @returns Error message if the execution is denied, or null if it is allowed
+ */
+export const checkCommandPolicy = ({ command: code, language, cwd, args }: PolicySubject): string | null => {
+    if (rules.length === 0 && defaultAction === 'allow') return null;
+
+    const command = args?.length ? [code, ...args].join(' ') : code;
+    const languageName = getLanguageName(language);
+    const resolvedCwd = getWorkingDirectory(language, cwd);
+
+    const match = rules.find(
+        (compiled) =>
+            (!compiled.command || compiled.command.test(command)) &&
+            (!compiled.languages || compiled.languages.includes(languageName)) &&
+            (!compiled.cwd || compiled.cwd.test(resolvedCwd)),
+    );
+    const action = match ? match.rule.action : defaultAction;
+    if (action === 'allow') return null;
+
+    const reason = match
+        ? (match.rule.reason ?? `matches deny rule ${match.index}`)
+        : 'no allow rule matches and the default action is deny';
+    log.warning('Command policy violation', {
+        command: command.substring(0, 200),
+        language: languageName,
+        cwd: resolvedCwd,
+        rule: match?.index,
+        reason,
+    });
+    return `Denied by command policy: ${reason}`;
+};
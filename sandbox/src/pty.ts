@@ -0,0 +1,196 @@
+// Interactive command execution in a pseudo-terminal over WebSocket (/exec/pty)
+// For tools that need a real terminal: interactive installers, REPLs, `git rebase` prompts
+import { spawn } from 'node:child_process';
+import type { IncomingMessage } from 'node:http';
+import type { Writable } from 'node:stream';
+
+import { log } from 'apify';
+import type { WebSocket } from 'ws';
+
+import { PTY_DEFAULT_COLS, PTY_DEFAULT_ROWS, PTY_KILL_GRACE_PERIOD, SANDBOX_DIR } from './consts.js';
+import { getExecutionEnvironment } from './environment.js';
+import { SecretStreamRedactor } from './secrets.js';
+import { getUserSpawnOptions } from './user.js';
+
+/**
+ * Messages sent by the client
+ */
+type PtyClientMessage = { type: 'input'; data: string } | { type: 'resize'; cols: number; rows: number };
+
+/**
+ * Messages sent to the client
+ */
+type PtyServerMessage =
+    | { type: 'output'; data: string }
+    | { type: 'exit'; exitCode: number | null; signal: string | null; durationMs: number }
+    | { type: 'error'; message: string };
+
+/**
+ * PTY driver
+ * Runs the command in a new session with the pseudo-terminal as its controlling terminal,
+ * relays terminal input (stdin) and output (stdout) and reads resize requests as JSON lines from fd 3.
+ * On SIGTERM the command's session gets SIGHUP, followed by SIGKILL after a grace period.
+ * The driver exits with the command's exit code, or is killed by the same signal as the command.
+ */
+const PTY_DRIVER = String.raw`
+import fcntl, json, os, pty, select, signal, struct, sys, termios
+
+cols, rows, grace, command = int(sys.argv[1]), int(sys.argv[2]), int(sys.argv[3]), sys.argv[4]
+winsize = lambda c, r: struct.pack('HHHH', r, c, 0, 0)
+
+pid, master = pty.fork()
+if pid == 0:
+    fcntl.ioctl(0, termios.TIOCSWINSZ, winsize(cols, rows))
+    os.execv('/bin/bash', ['/bin/bash', '-c', command] if command else ['/bin/bash', '-i'])
+
+def hangup(*_):
+    try:
+        os.killpg(pid, signal.SIGHUP)
+    except OSError:
+        pass
+    signal.signal(signal.SIGALRM, lambda *_: os.killpg(pid, signal.SIGKILL))
+    signal.alarm(grace)
+
+signal.signal(signal.SIGTERM, hangup)
+
+def write_all(fd, data):
+    while data:
+        data = data[os.write(fd, data):]
+
+sources, control = [master, 0, 3], b''
+while True:
+    try:
+        readable = select.select(sources, [], [])[0]
+    except InterruptedError:
+        continue
+    if master in readable:
+        try:
+            data = os.read(master, 65536)
+        except OSError:
+            data = b''
+        if not data:
+            break
+        write_all(1, data)
+    if 0 in readable:
+        data = os.read(0, 65536)
+        if data:
+            write_all(master, data)
+        else:
+            sources.remove(0)
+    if 3 in readable:
+        data = os.read(3, 65536)
+        if not data:
+            sources.remove(3)
+        control += data
+        while b'\n' in control:
+            line, control = control.split(b'\n', 1)
+            message = json.loads(line)
+            fcntl.ioctl(master, termios.TIOCSWINSZ, winsize(message['cols'], message['rows']))
+
+status = os.waitpid(pid, 0)[1]
+if os.WIFSIGNALED(status):
+    signal.signal(os.WTERMSIG(status), signal.SIG_DFL)
+    os.kill(os.getpid(), os.WTERMSIG(status))
+sys.exit(os.WEXITSTATUS(status))
+`;
+
+/**
+ * Parse a positive terminal dimension, falling back to the default
+ */
+const parseDimension = (value: unknown, fallback: number): number => {
+    const parsed = Number(value);
+    return Number.isInteger(parsed) && parsed > 0 && parsed <= 1000 ? parsed : fallback;
+};
+
+const send = (ws: WebSocket, message: PtyServerMessage): void => {
+    if (ws.readyState === ws.OPEN) ws.send(JSON.stringify(message));
+};
+
+/**
+ * Handle a WebSocket connection to /exec/pty
+ * The command, working directory and initial terminal size are taken from the query string:
+ * /exec/pty?command=python3&cwd=/sandbox&cols=120&rows=40 (without a command, an interactive bash is started)
+ */
+export const handlePtyConnection = (ws: WebSocket, req: IncomingMessage): void => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const command = url.searchParams.get('command') ?? '';
+    const cwd = url.searchParams.get('cwd') || SANDBOX_DIR;
+    const cols = parseDimension(url.searchParams.get('cols'), PTY_DEFAULT_COLS);
+    const rows = parseDimension(url.searchParams.get('rows'), PTY_DEFAULT_ROWS);
+    const startedAt = Date.now();
+
+    log.info('PTY session requested', { command: command.substring(0, 100), cwd, cols, rows });
+
+    const child = spawn(
+        'python3',
+        ['-c', PTY_DRIVER, String(cols), String(rows), String(Math.ceil(PTY_KILL_GRACE_PERIOD / 1000)), command],
+        {
+            cwd,
+            env: { ...getExecutionEnvironment(), TERM: 'xterm-256color' },
+            ...getUserSpawnOptions(),
+            stdio: ['pipe', 'pipe', 'pipe', 'pipe'],
+        },
+    );
+    const control = child.stdio[3] as Writable;
+
+    // Output is redacted as one stream, so secrets split across chunks are redacted too
+    const redactor = new SecretStreamRedactor();
+    const flushOutput = () => {
+        const data = redactor.flush();
+        if (data) send(ws, { type: 'output', data });
+    };
+    child.stdout.setEncoding('utf8');
+    child.stdout.on('data', (data: string) => {
+        const redacted = redactor.push(data);
+        if (redacted) send(ws, { type: 'output', data: redacted });
+    });
+    // The driver itself only writes to stderr if it fails
+    child.stderr.setEncoding('utf8');
+    child.stderr.on('data', (data: string) => log.debug('PTY driver stderr', { data }));
+    child.stdin.on('error', (err) => log.debug('Failed to write PTY input', { error: err.message }));
+    control.on('error', (err) => log.debug('Failed to write PTY control message', { error: err.message }));
+
+    child.on('error', (err) => {
+        log.warning('Failed to start PTY session', { error: err.message });
+        send(ws, { type: 'error', message: `Failed to start PTY: ${err.message}` });
+        ws.close();
+    });
+
+    child.on('close', (code, signal) => {
+        log.info('PTY session exited', { pid: child.pid, code, signal });
+        flushOutput();
+        send(ws, { type: 'exit', exitCode: code, signal, durationMs: Date.now() - startedAt });
+        ws.close();
+    });
+
+    ws.on('message', (raw) => {
+        let message: PtyClientMessage;
+        try {
+            message = JSON.parse(raw.toString()) as PtyClientMessage;
+        } catch {
+            send(ws, { type: 'error', message: 'Invalid message: expected JSON' });
+            return;
+        }
+
+        if (message.type === 'input' && typeof message.data === 'string') {
+            child.stdin.write(message.data);
+        } else if (message.type === 'resize') {
+            const size = {
+                cols: parseDimension(message.cols, PTY_DEFAULT_COLS),
+                rows: parseDimension(message.rows, PTY_DEFAULT_ROWS),
+            };
+            control.write(`${JSON.stringify(size)}\n`);
+        } else {
+            send(ws, { type: 'error', message: 'Unknown message type. Supported: input, resize' });
+        }
+    });
+
+    // Hang up the terminal when the client goes away
+    ws.on('close', () => {
+        flushOutput();
+        if (child.exitCode === null && child.signalCode === null) {
+            log.info('PTY client disconnected, terminating session', { pid: child.pid });
+            child.kill('SIGTERM');
+        }
+    });
+};
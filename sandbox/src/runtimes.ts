@@ -0,0 +1,228 @@
+// Language runtime registry for code execution
+// Each runtime declares how a snippet is stored and run, so new languages (installed e.g. via initShellScript)
+// only need a definition instead of changes to the execution code
+import { exec } from 'node:child_process';
+import { promisify } from 'node:util';
+
+import { log } from 'apify';
+
+import { JS_TS_CODE_DIR, PYTHON_CODE_DIR, RUNTIME_VERSION_PROBE_TIMEOUT, SANDBOX_DIR } from './consts.js';
+import { getExecutionEnvironment } from './environment.js';
+import type { RuntimeDefinition } from './types.js';
+import { getUserSpawnOptions } from './user.js';
+
+const execAsync = promisify(exec);
+
+/**
+ * Runtime with all optional fields resolved
+ */
+export interface Runtime extends Required<Omit<RuntimeDefinition, 'versionCommand'>> {
+    versionCommand: string | null;
+    /**
+     * The code is run directly as a shell command instead of being written to a file (shell runtime)
+     */
+    inline: boolean;
+}
+
+/**
+ * Runtime as listed by GET /runtimes
+ */
+export interface RuntimeInfo extends Runtime {
+    available: boolean;
+    version: string | null;
+}
+
+/**
+ * Built-in runtimes. Runtimes whose interpreter is not installed are listed as unavailable
+ */
+const BUILT_IN_RUNTIMES: Runtime[] = [
+    {
+        name: 'shell',
+        aliases: ['bash', 'sh'],
+        extension: '.sh',
+        command: 'bash {file}',
+        cwd: SANDBOX_DIR,
+        versionCommand: 'bash --version',
+        inline: true,
+    },
+    {
+        name: 'js',
+        aliases: ['javascript', 'node'],
+        extension: '.js',
+        command: 'node {file}',
+        cwd: JS_TS_CODE_DIR,
+        versionCommand: 'node --version',
+        inline: false,
+    },
+    {
+        name: 'ts',
+        aliases: ['typescript'],
+        extension: '.ts',
+        command: 'tsx {file}',
+        cwd: JS_TS_CODE_DIR,
+        versionCommand: 'tsx --version',
+        inline: false,
+    },
+    {
+        name: 'py',
+        aliases: ['python'],
+        extension: '.py',
+        command: 'python {file}',
+        cwd: PYTHON_CODE_DIR,
+        versionCommand: 'python --version',
+        inline: false,
+    },
+    {
+        name: 'deno',
+        aliases: [],
+        extension: '.ts',
+        command: 'deno run --allow-all {file}',
+        cwd: JS_TS_CODE_DIR,
+        versionCommand: 'deno --version',
+        inline: false,
+    },
+    {
+        name: 'bun',
+        aliases: [],
+        extension: '.ts',
+        command: 'bun run {file}',
+        cwd: JS_TS_CODE_DIR,
+        versionCommand: 'bun --version',
+        inline: false,
+    },
+    {
+        name: 'ruby',
+        aliases: ['rb'],
+        extension: '.rb',
+        command: 'ruby {file}',
+        cwd: SANDBOX_DIR,
+        versionCommand: 'ruby --version',
+        inline: false,
+    },
+    {
+        name: 'go',
+        aliases: ['golang'],
+        extension: '.go',
+        command: 'go run {file}',
+        cwd: SANDBOX_DIR,
+        versionCommand: 'go version',
+        inline: false,
+    },
+];
+
+const runtimes = new Map<string, Runtime>(BUILT_IN_RUNTIMES.map((runtime) => [runtime.name, runtime]));
+
+/**
+ * Validate a runtime definition
+ * @returns Error message, or null if the definition is valid
+ */
+const validateRuntimeDefinition = (definition: RuntimeDefinition): string | null => {
+    if (!definition || typeof definition !== 'object') return 'Runtime definition must be an object';
+    if (typeof definition.name !== 'string' || !/^[a-z0-9][a-z0-9_-]*$/i.test(definition.name)) {
+        return `Invalid runtime name: ${JSON.stringify(definition.name)}`;
+    }
+    if (typeof definition.extension !== 'string' || !/^\.[\w.-]+$/.test(definition.extension)) {
+        return `Invalid extension for runtime ${definition.name}: must start with a dot, e.g. ".rb"`;
+    }
+    if (typeof definition.command !== 'string' || !definition.command.includes('{file}')) {
+        return `Invalid command for runtime ${definition.name}: must contain the {file} placeholder`;
+    }
+    if (
+        definition.aliases !== undefined &&
+        (!Array.isArray(definition.aliases) || definition.aliases.some((alias) => typeof alias !== 'string'))
+    ) {
+        return `Invalid aliases for runtime ${definition.name}: must be an array of strings`;
+    }
+    if (definition.cwd !== undefined && typeof definition.cwd !== 'string') {
+        return `Invalid cwd for runtime ${definition.name}: must be a string`;
+    }
+    if (definition.versionCommand !== undefined && typeof definition.versionCommand !== 'string') {
+        return `Invalid versionCommand for runtime ${definition.name}: must be a string`;
+    }
+    return null;
+};
+
+/**
+ * Register additional runtimes (e.g. from Actor input)
+ * A runtime with the name of an existing one replaces it. Invalid definitions are skipped
+ */
+export const registerRuntimes = (definitions: RuntimeDefinition[] = []): void => {
+    for (const definition of definitions) {
+        const error = validateRuntimeDefinition(definition);
+        if (error) {
+            log.warning('Skipping invalid runtime definition', { error });
+            continue;
+        }
+        const name = definition.name.toLowerCase();
+        runtimes.set(name, {
+            name,
+            aliases: (definition.aliases ?? []).map((alias) => alias.toLowerCase()),
+            extension: definition.extension,
+            command: definition.command,
+            cwd: definition.cwd ?? SANDBOX_DIR,
+            versionCommand: definition.versionCommand ?? null,
+            inline: false,
+        });
+        log.info('Runtime registered', { name });
+    }
+};
+
+/**
+ * Resolve a language name or alias to its runtime
+ * @param language - Runtime name or alias (case-insensitive)
+ * @returns Runtime, or undefined if no runtime matches
+ */
+export const resolveRuntime = (language: string): Runtime | undefined => {
+    const lower = language.toLowerCase();
+    const direct = runtimes.get(lower);
+    if (direct) return direct;
+    return [...runtimes.values()].find((runtime) => runtime.aliases.includes(lower));
+};
+
+/**
+ * Find the runtime for a file extension (e.g. ".ts"); the first registered runtime wins if several share it
+ */
+export const resolveRuntimeByExtension = (extension: string): Runtime | undefined => {
+    const lower = extension.toLowerCase();
+    return [...runtimes.values()].find((runtime) => runtime.extension.toLowerCase() === lower);
+};
+
+/**
+ * All accepted language names and aliases, for error messages and tool descriptions
+ */
+export const getSupportedLanguages = (): string[] =>
+    [...runtimes.values()].flatMap((runtime) => [runtime.name, ...runtime.aliases]);
+
+/**
+ * Quote a value as a single shell word
+ */
+export const shellQuote = (value: string): string => `'${value.replace(/'/g, `'\\''`)}'`;
+
+/**
+ * Build the shell command that runs a code file with the given runtime
+ * @param args - Program arguments, quoted and appended to the command
+ */
+export const buildRuntimeCommand = (runtime: Runtime, file: string, args: string[] = []): string =>
+    [runtime.command.split('{file}').join(shellQuote(file)), ...args.map(shellQuote)].join(' ');
+
+/**
+ * List all registered runtimes with their availability in the running sandbox
+ * A runtime is available if its version probe succeeds; the first line of its output is reported as the version
+ * Probes run as the sandbox user: they resolve interpreters from the venv and node_modules, which that user owns
+ */
+export const listRuntimes = async (): Promise<RuntimeInfo[]> =>
+    Promise.all(
+        [...runtimes.values()].map(async (runtime): Promise<RuntimeInfo> => {
+            if (!runtime.versionCommand) return { ...runtime, available: true, version: null };
+            try {
+                const { stdout, stderr } = await execAsync(runtime.versionCommand, {
+                    env: getExecutionEnvironment(),
+                    timeout: RUNTIME_VERSION_PROBE_TIMEOUT,
+                    ...getUserSpawnOptions(),
+                });
+                return { ...runtime, available: true, version: (stdout || stderr).trim().split('\n')[0] || null };
+            } catch {
+                return { ...runtime, available: false, version: null };
+            }
+        }),
+    );
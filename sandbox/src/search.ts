@@ -0,0 +1,313 @@
+// Content search: finds lines matching a regular expression or literal text in the files below a sandbox path and
+// returns them as structured matches, so agents do not have to shell out to grep and parse its output
+// Files are walked like recursive directory listings (see collectEntries), honoring .gitignore by default
+import { once } from 'node:events';
+import type { Stats } from 'node:fs';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { Worker } from 'node:worker_threads';
+
+import { log } from 'apify';
+
+import {
+    MAX_SEARCH_RESULTS,
+    SANDBOX_DIR,
+    SEARCH_MAX_CONTEXT_LINES,
+    SEARCH_MAX_FILE_BYTES,
+    SEARCH_TIMEOUT,
+} from './consts.js';
+import type { FileEntry } from './operations.js';
+import { collectEntries, compareEntries, resolveAndValidatePath, validateListOptions } from './operations.js';
+
+/**
+ * Number of matches returned when the request does not set maxResults
+ */
+const DEFAULT_MAX_RESULTS = 100;
+
+/**
+ * Files with a NUL byte in this many leading bytes are treated as binary and skipped, like grep does
+ */
+const BINARY_SNIFF_BYTES = 8000;
+
+/**
+ * Longer lines are cut in previews and context
+ */
+const PREVIEW_MAX_LENGTH = 500;
+
+/**
+ * Matches the lines of the files it is sent against the pattern in workerData; replies with a MatchResponse
+ * Search patterns come from requests, and one with catastrophic backtracking would block the event loop of the whole
+ * server, so matching runs in a worker thread that the search terminates when it runs out of time
+ */
+const MATCHER_WORKER_SCRIPT = String.raw`
+const { parentPort, workerData } = require('node:worker_threads');
+const { source, flags, context } = workerData;
+const pattern = new RegExp(source, flags);
+const truncateLine = (line) => (line.length > ${PREVIEW_MAX_LENGTH} ? line.slice(0, ${PREVIEW_MAX_LENGTH}) + '…' : line);
+
+parentPort.on('message', ({ content, limit }) => {
+    const lines = content.split(/\r?\n/);
+    // A final newline ends the last line, it does not start another (empty) one
+    if (lines[lines.length - 1] === '') lines.pop();
+    const response = { matches: [], truncated: false };
+    for (let index = 0; index < lines.length; index++) {
+        const found = pattern.exec(lines[index]);
+        if (!found) continue;
+        // Only report truncation if there is another match
+        if (response.matches.length >= limit) {
+            response.truncated = true;
+            break;
+        }
+        const match = {
+            line: index + 1,
+            column: found.index + 1,
+            preview: truncateLine(lines[index]),
+            match: truncateLine(found[0]),
+        };
+        if (context > 0) {
+            match.before = lines.slice(Math.max(0, index - context), index).map(truncateLine);
+            match.after = lines.slice(index + 1, index + 1 + context).map(truncateLine);
+        }
+        response.matches.push(match);
+    }
+    parentPort.postMessage(response);
+});
+`;
+
+export interface SearchRequest {
+    /**
+     * Regular expression (JavaScript syntax), or literal text if literal is set
+     */
+    query: string;
+    literal?: boolean;
+    /**
+     * File or directory to search (defaults to /sandbox)
+     */
+    path?: string;
+    /**
+     * Globs of files to search and to skip, matched like in directory listings
+     */
+    include?: string[];
+    exclude?: string[];
+    /**
+     * Search files and directories whose name starts with a dot (default true)
+     */
+    hidden?: boolean;
+    /**
+     * Skip .git and files ignored by .gitignore (default true)
+     */
+    gitignore?: boolean;
+    /**
+     * Default true
+     */
+    caseSensitive?: boolean;
+    /**
+     * Lines of context before and after each match (default 0)
+     */
+    context?: number;
+    maxResults?: number;
+}
+
+export interface SearchMatch {
+    /**
+     * Path relative to /sandbox, usable with /fs/{path}
+     */
+    path: string;
+    /**
+     * 1-based line and column of the first match on the line
+     */
+    line: number;
+    column: number;
+    /**
+     * The matching line and the matched text
+     */
+    preview: string;
+    match: string;
+    before?: string[];
+    after?: string[];
+}
+
+export interface SearchResult {
+    /**
+     * Absolute path of the searched file or directory
+     */
+    path: string;
+    matches: SearchMatch[];
+    filesSearched: number;
+    filesMatched: number;
+    /**
+     * Set when the search stopped at maxResults or its file walk stopped at MAX_LISTED_ENTRIES
+     */
+    truncated: boolean;
+    /**
+     * Set when the search stopped at SEARCH_TIMEOUT; matches found until then are returned
+     */
+    timedOut: boolean;
+    durationMs: number;
+}
+
+/**
+ * Build the regular expression of a search request
+ * @returns The expression, or an error message for invalid syntax
+ */
+const buildSearchPattern = ({ query, literal, caseSensitive }: SearchRequest): RegExp | string => {
+    const source = literal ? query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&') : query;
+    try {
+        return new RegExp(source, caseSensitive === false ? 'i' : '');
+    } catch (error) {
+        return (error as Error).message;
+    }
+};
+
+/**
+ * Validate a search request
+ * @returns Error message, or null if the request is valid
+ */
+export const validateSearchRequest = (request: SearchRequest): string | null => {
+    if (typeof request.query !== 'string' || !request.query) return 'query must be a non-empty string';
+    if (request.path !== undefined && typeof request.path !== 'string') return 'path must be a string';
+    const { context, maxResults } = request;
+    if (context !== undefined && (!Number.isInteger(context) || context < 0 || context > SEARCH_MAX_CONTEXT_LINES)) {
+        return `context must be an integer between 0 and ${SEARCH_MAX_CONTEXT_LINES}`;
+    }
+    if (
+        maxResults !== undefined &&
+        (!Number.isInteger(maxResults) || maxResults < 1 || maxResults > MAX_SEARCH_RESULTS)
+    ) {
+        return `maxResults must be an integer between 1 and ${MAX_SEARCH_RESULTS}`;
+    }
+    const listError = validateListOptions({ include: request.include, exclude: request.exclude });
+    if (listError) return listError;
+    const pattern = buildSearchPattern(request);
+    return typeof pattern === 'string' ? pattern : null;
+};
+
+interface MatchRequest {
+    content: string;
+    /**
+     * Number of matches still allowed; one more sets truncated
+     */
+    limit: number;
+}
+
+interface MatchResponse {
+    matches: Omit<SearchMatch, 'path'>[];
+    truncated: boolean;
+}
+
+/**
+ * Match the lines of a file in the matcher worker
+ * @returns The worker's matches, or undefined if the worker was terminated first
+ */
+const matchInWorker = async (matcher: Worker, request: MatchRequest): Promise<MatchResponse | undefined> => {
+    const settled = new AbortController();
+    matcher.postMessage(request);
+    try {
+        return await Promise.race([
+            once(matcher, 'message', { signal: settled.signal }).then(([response]) => response as MatchResponse),
+            once(matcher, 'exit', { signal: settled.signal }).then(() => undefined),
+        ]);
+    } finally {
+        // Remove the listener of the losing event
+        settled.abort();
+    }
+};
+
+/**
+ * Search the contents of the files below a sandbox path
+ * Binary files and files larger than SEARCH_MAX_FILE_BYTES are skipped; symlinks are only followed inside /sandbox
+ * @param request - Validated search request
+ * @returns Matches in path order, or an error message if the path cannot be searched
+ */
+export const searchFiles = async (request: SearchRequest): Promise<SearchResult | string> => {
+    const startedAt = Date.now();
+    const pattern = buildSearchPattern(request);
+    if (typeof pattern === 'string') return pattern;
+    const maxResults = request.maxResults ?? DEFAULT_MAX_RESULTS;
+    const context = request.context ?? 0;
+
+    let scope: string;
+    let stats: Stats;
+    try {
+        scope = await resolveAndValidatePath(request.path || SANDBOX_DIR);
+        stats = await fs.stat(scope);
+    } catch (error) {
+        return (error as Error).message;
+    }
+
+    // A single file is searched as the only entry of its directory
+    let root = scope;
+    let files: FileEntry[] = [{ name: path.basename(scope), path: path.basename(scope), type: 'file' }];
+    let walkTruncated = false;
+    if (stats.isDirectory()) {
+        const walk = await collectEntries(scope, {
+            recursive: true,
+            include: request.include,
+            exclude: request.exclude,
+            hidden: request.hidden,
+            gitignore: request.gitignore !== false,
+        });
+        files = walk.entries.filter((entry) => entry.type === 'file').sort(compareEntries('name'));
+        walkTruncated = walk.truncated;
+    } else {
+        root = path.dirname(scope);
+    }
+
+    // Matching runs in a worker thread that is terminated when the search runs out of time
+    const matcher = new Worker(MATCHER_WORKER_SCRIPT, {
+        eval: true,
+        workerData: { source: pattern.source, flags: pattern.flags, context },
+    });
+    let timedOut = false;
+    const timer = setTimeout(() => {
+        timedOut = true;
+        void matcher.terminate();
+    }, SEARCH_TIMEOUT);
+
+    const matches: SearchMatch[] = [];
+    let filesSearched = 0;
+    let filesMatched = 0;
+    let truncated = false;
+    try {
+        for (const file of files) {
+            if (truncated || timedOut) break;
+            let fullPath = path.join(root, file.path);
+            let content: Buffer;
+            try {
+                if (file.target) fullPath = await resolveAndValidatePath(fullPath);
+                if ((await fs.stat(fullPath)).size > SEARCH_MAX_FILE_BYTES) continue;
+                content = await fs.readFile(fullPath);
+            } catch (error) {
+                log.debug('Skipping file in search', { path: fullPath, error: (error as Error).message });
+                continue;
+            }
+            if (content.subarray(0, BINARY_SNIFF_BYTES).includes(0)) continue;
+
+            const response = await matchInWorker(matcher, {
+                content: content.toString('utf8'),
+                limit: maxResults - matches.length,
+            });
+            if (!response) break;
+            filesSearched++;
+            const relativePath = path.relative(SANDBOX_DIR, path.join(root, file.path));
+            for (const match of response.matches) matches.push({ path: relativePath, ...match });
+            if (response.matches.length > 0) filesMatched++;
+            truncated = response.truncated;
+        }
+    } finally {
+        clearTimeout(timer);
+        await matcher.terminate();
+    }
+
+    if (timedOut) log.warning('Search timed out', { path: scope, query: request.query, timeout: SEARCH_TIMEOUT });
+    log.debug('searchFiles completed', { path: scope, matchCount: matches.length, filesSearched });
+    return {
+        path: scope,
+        matches,
+        filesSearched,
+        filesMatched,
+        truncated: truncated || walkTruncated,
+        timedOut,
+        durationMs: Date.now() - startedAt,
+    };
+};
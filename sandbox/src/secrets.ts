@@ -0,0 +1,202 @@
+// Secrets from the Actor input (API keys, tokens)
+// Secrets are injected into execution environments, never written to persistent disk,
+// and redacted from logs, execution output and the migration tarball
+import { promises as fs } from 'node:fs';
+
+import { log } from 'apify';
+
+import { SECRETS_ENV_FILE, SECRETS_MIN_REDACTION_LENGTH } from './consts.js';
+import { RedactingLogger } from './logger.js';
+
+/**
+ * Filesystem type magic number of tmpfs (see statfs(2))
+ */
+const TMPFS_MAGIC = 0x01021994;
+
+let secrets: Record<string, string> = {};
+
+/**
+ * Secret values with their placeholders, longest value first so overlapping secrets are fully redacted
+ */
+let redactions: { name: string; value: string; placeholder: string }[] = [];
+
+/**
+ * Placeholder that replaces a secret value in logs, outputs and migrated files
+ */
+const getPlaceholder = (name: string): string => `[REDACTED:${name}]`;
+
+/**
+ * Quote a value for a POSIX shell
+ */
+const shellQuote = (value: string): string => `'${value.replace(/'/g, `'\\''`)}'`;
+
+/**
+ * Validate the secrets input
+ * @returns Error message, or null if the secrets are valid
+ */
+export const validateSecrets = (input: unknown): string | null => {
+    if (input === undefined || input === null) return null;
+    if (typeof input !== 'object' || Array.isArray(input)) {
+        return 'secrets must be an object mapping environment variable names to values';
+    }
+    for (const [name, value] of Object.entries(input)) {
+        if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+            return `Invalid secret name: ${JSON.stringify(name)} (must be a valid environment variable name)`;
+        }
+        if (typeof value !== 'string') {
+            return `Invalid value for secret ${name}: must be a string`;
+        }
+    }
+    return null;
+};
+
+/**
+ * Replace all secret values in text with placeholders
+ */
+export const redactSecrets = (text: string): string => {
+    let redacted = text;
+    for (const { value, placeholder } of redactions) {
+        redacted = redacted.split(value).join(placeholder);
+    }
+    return redacted;
+};
+
+/**
+ * Redacts secrets from output that arrives in chunks, e.g. from a process's stdout
+ * Redacting chunk by chunk would miss a secret split across two chunks, so the end of a chunk that may be the
+ * beginning of a secret is held back until the next chunk arrives or the stream is flushed
+ */
+export class SecretStreamRedactor {
+    private pending = '';
+
+    /**
+     * Add a chunk of the stream
+     * @returns Redacted output that can be passed on (may be empty)
+     */
+    push(chunk: string): string {
+        if (redactions.length === 0) return chunk;
+        const text = this.pending + chunk;
+
+        // Hold back the longest tail that is the beginning of a secret (tails as long as the secret contain it whole)
+        const longest = redactions[0].value.length;
+        let cut = text.length;
+        for (let start = Math.max(0, text.length - longest + 1); start < text.length; start++) {
+            const tail = text.slice(start);
+            if (redactions.some(({ value }) => value.startsWith(tail))) {
+                cut = start;
+                break;
+            }
+        }
+        // Never cut through a complete secret that overlaps the held back tail
+        for (let moved = true; moved; ) {
+            moved = false;
+            for (const { value } of redactions) {
+                const start = text.lastIndexOf(value, cut - 1);
+                if (start !== -1 && start < cut && start + value.length > cut) {
+                    cut = start;
+                    moved = true;
+                }
+            }
+        }
+
+        this.pending = text.slice(cut);
+        return redactSecrets(text.slice(0, cut));
+    }
+
+    /**
+     * End of the stream
+     * @returns Redacted output that was held back
+     */
+    flush(): string {
+        const rest = redactSecrets(this.pending);
+        this.pending = '';
+        return rest;
+    }
+}
+
+/**
+ * Replace every occurrence of search in contents
+ */
+const replaceInBuffer = (contents: Buffer, search: Buffer, replacement: Buffer): Buffer => {
+    const parts: Buffer[] = [];
+    let start = 0;
+    let index = contents.indexOf(search);
+    while (index !== -1) {
+        parts.push(contents.subarray(start, index), replacement);
+        start = index + search.length;
+        index = contents.indexOf(search, start);
+    }
+    if (parts.length === 0) return contents;
+    parts.push(contents.subarray(start));
+    return Buffer.concat(parts);
+};
+
+/**
+ * Replace all secret values in (possibly binary) file contents with placeholders
+ * @returns Redacted contents, or undefined if the contents contain no secrets
+ */
+export const redactSecretsInBuffer = (contents: Buffer): Buffer | undefined => {
+    if (!redactions.some(({ value }) => contents.includes(value))) return undefined;
+    return redactions.reduce(
+        (redacted, { value, placeholder }) => replaceInBuffer(redacted, Buffer.from(value), Buffer.from(placeholder)),
+        contents,
+    );
+};
+
+/**
+ * Replace placeholders of known secrets with their current values (reverse of redactSecretsInBuffer)
+ */
+export const unredactSecretsInBuffer = (contents: Buffer): Buffer =>
+    redactions.reduce(
+        (restored, { value, placeholder }) => replaceInBuffer(restored, Buffer.from(placeholder), Buffer.from(value)),
+        contents,
+    );
+
+/**
+ * Secrets as environment variables for executions
+ */
+export const getSecretEnvironment = (): Record<string, string> => ({ ...secrets });
+
+/**
+ * Write secrets as a sourceable env file, but only if the target is on tmpfs (RAM),
+ * so secrets never reach persistent disk
+ */
+const writeSecretsEnvFile = async (): Promise<void> => {
+    const stats = await fs.statfs(SECRETS_ENV_FILE.slice(0, SECRETS_ENV_FILE.lastIndexOf('/')));
+    if (stats.type !== TMPFS_MAGIC) {
+        log.warning('Secrets env file not written: target directory is not on tmpfs', { path: SECRETS_ENV_FILE });
+        return;
+    }
+    const contents = Object.entries(secrets)
+        .map(([name, value]) => `export ${name}=${shellQuote(value)}\n`)
+        .join('');
+    await fs.writeFile(SECRETS_ENV_FILE, contents, { mode: 0o600 });
+    await fs.chmod(SECRETS_ENV_FILE, 0o600);
+    log.debug('Secrets env file written', { path: SECRETS_ENV_FILE });
+};
+
+/**
+ * Initialize secrets from Actor input
+ * Must run before anything logs or executes user code with the secrets
+ */
+export const initializeSecrets = async (input: Record<string, string> = {}): Promise<void> => {
+    secrets = { ...input };
+    redactions = Object.entries(secrets)
+        .filter(([name, value]) => {
+            if (value.length >= SECRETS_MIN_REDACTION_LENGTH) return true;
+            log.warning('Secret is too short to be redacted', { name, minLength: SECRETS_MIN_REDACTION_LENGTH });
+            return false;
+        })
+        .map(([name, value]) => ({ name, value, placeholder: getPlaceholder(name) }))
+        .sort((a, b) => b.value.length - a.value.length);
+
+    if (Object.keys(secrets).length === 0) return;
+
+    log.setOptions({ logger: new RedactingLogger(redactSecrets) });
+    try {
+        await writeSecretsEnvFile();
+    } catch (error) {
+        log.warning('Failed to write secrets env file', { error: (error as Error).message });
+    }
+    log.info('Secrets initialized', { names: Object.keys(secrets) });
+};
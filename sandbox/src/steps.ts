@@ -0,0 +1,219 @@
+// Batch execution of multiple steps (e.g. install → build → test) in a single /exec request or MCP execute call
+import { log } from 'apify';
+
+import { MAX_EXECUTION_STEPS } from './consts.js';
+import { validateEnvironmentOverrides } from './environment.js';
+import { validateLimits } from './limits.js';
+import { decodeStdin, executeCode, runCommand } from './operations.js';
+import { checkCommandPolicy } from './policy.js';
+import { getSupportedLanguages, resolveRuntime } from './runtimes.js';
+import type { Artifact, ExceededLimit, ExecutionOptions, ResourceLimits } from './types.js';
+
+export type StepFailureMode = 'stop' | 'continue';
+
+/**
+ * A single step of a batch execution
+ */
+export interface ExecutionStep {
+    /**
+     * Optional label to identify the step in the results
+     */
+    name?: string;
+    command: string;
+    language?: string;
+    cwd?: string;
+    timeoutSecs?: number;
+    stdin?: string;
+    stdinEncoding?: 'utf8' | 'base64';
+    /**
+     * Merged over the environment variables shared by all steps
+     */
+    env?: Record<string, string | null>;
+    /**
+     * Merged over the limits shared by all steps
+     */
+    limits?: ResourceLimits;
+}
+
+/**
+ * Result of a single step
+ * Steps that did not run because an earlier step failed (or the batch was aborted) only have their status set
+ */
+export interface StepResult {
+    index: number;
+    name?: string;
+    status: 'succeeded' | 'failed' | 'skipped';
+    language: string;
+    stdout?: string;
+    stderr?: string;
+    exitCode?: number;
+    timedOut?: boolean;
+    signal?: NodeJS.Signals | null;
+    durationMs?: number;
+    limitExceeded?: ExceededLimit | null;
+    artifacts?: Artifact[];
+}
+
+/**
+ * Result of a batch execution
+ */
+export interface StepsResult {
+    /**
+     * Exit code of the first failed step, or 0 if all steps succeeded
+     */
+    exitCode: number;
+    succeeded: boolean;
+    durationMs: number;
+    steps: StepResult[];
+}
+
+/**
+ * Settings shared by all steps; each step can override them
+ */
+export interface StepDefaults {
+    language?: string;
+    cwd?: string;
+    timeoutSecs?: number;
+    env?: Record<string, string | null>;
+    limits?: ResourceLimits;
+}
+
+/**
+ * Options of a batch execution; output chunks passed to onOutput carry the index of their step
+ */
+export interface StepsOptions extends Pick<ExecutionOptions, 'onOutput' | 'abortSignal' | 'captureArtifacts'> {
+    /**
+     * 'stop' (default) skips the remaining steps after the first failure, 'continue' runs all steps
+     */
+    onFailure?: StepFailureMode;
+    /**
+     * Called when a step has finished (not for skipped steps)
+     */
+    onStepFinished?: (result: StepResult) => void;
+}
+
+/**
+ * Validate settings that can be given per step or as defaults for all steps
+ * @returns Error message, or null if the settings are valid
+ */
+const validateStepSettings = ({ language, cwd, timeoutSecs, env, limits }: StepDefaults): string | null => {
+    if (language !== undefined && (typeof language !== 'string' || !resolveRuntime(language))) {
+        return `invalid language ${language}. Supported: ${getSupportedLanguages().join(', ')}`;
+    }
+    if (cwd !== undefined && typeof cwd !== 'string') return 'cwd must be a string';
+    if (timeoutSecs !== undefined && (typeof timeoutSecs !== 'number' || !(timeoutSecs > 0))) {
+        return 'timeoutSecs must be a positive number';
+    }
+    return validateLimits(limits) ?? validateEnvironmentOverrides(env);
+};
+
+/**
+ * Validate the steps of a batch execution, the settings shared by all steps and the failure mode
+ * @returns Error message, or null if the steps are valid
+ */
+export const validateSteps = (steps: unknown, defaults: StepDefaults = {}, onFailure?: unknown): string | null => {
+    if (!Array.isArray(steps) || steps.length === 0) return 'steps must be a non-empty array';
+    if (steps.length > MAX_EXECUTION_STEPS) return `Too many steps: at most ${MAX_EXECUTION_STEPS} are allowed`;
+    if (onFailure !== undefined && onFailure !== 'stop' && onFailure !== 'continue') {
+        return `Invalid onFailure: ${onFailure}. Supported: stop, continue`;
+    }
+    const defaultsError = validateStepSettings(defaults);
+    if (defaultsError) return `Invalid step defaults: ${defaultsError}`;
+
+    for (const [index, step] of steps.entries()) {
+        const prefix = `Invalid step ${index}`;
+        if (!step || typeof step !== 'object' || Array.isArray(step)) return `${prefix}: must be an object`;
+        const { name, command, stdin, stdinEncoding } = step as ExecutionStep;
+        if (name !== undefined && typeof name !== 'string') return `${prefix}: name must be a string`;
+        if (typeof command !== 'string' || !command) return `${prefix}: command is required`;
+        if (stdin !== undefined && typeof stdin !== 'string') return `${prefix}: stdin must be a string`;
+        if (stdinEncoding !== undefined && stdinEncoding !== 'utf8' && stdinEncoding !== 'base64') {
+            return `${prefix}: invalid stdinEncoding ${stdinEncoding}. Supported: utf8, base64`;
+        }
+        if (stdin !== undefined && decodeStdin(stdin, stdinEncoding) === undefined) {
+            return `${prefix}: stdin is not valid base64`;
+        }
+        const settingsError = validateStepSettings(step as ExecutionStep);
+        if (settingsError) return `${prefix}: ${settingsError}`;
+    }
+    return null;
+};
+
+/**
+ * Check all steps against the command policy
+ * @returns Error message for the first denied step, or null if all steps are allowed
+ */
+export const checkStepsPolicy = (steps: ExecutionStep[], defaults: StepDefaults = {}): string | null => {
+    for (const [index, step] of steps.entries()) {
+        const error = checkCommandPolicy({
+            command: step.command,
+            language: step.language ?? defaults.language,
+            cwd: step.cwd ?? defaults.cwd,
+        });
+        if (error) return `Step ${index}: ${error}`;
+    }
+    return null;
+};
+
+/**
+ * Run steps one after another
+ * Steps must be validated with validateSteps first
+ */
+export const runSteps = async (
+    steps: ExecutionStep[],
+    defaults: StepDefaults = {},
+    options: StepsOptions = {},
+): Promise<StepsResult> => {
+    const startedAt = Date.now();
+    const onFailure = options.onFailure ?? 'stop';
+    const results: StepResult[] = [];
+    let exitCode = 0;
+
+    for (const [index, step] of steps.entries()) {
+        const runtime = resolveRuntime(step.language ?? defaults.language ?? 'shell');
+        const language = runtime && !runtime.inline ? runtime.name : 'shell';
+
+        if ((exitCode !== 0 && onFailure === 'stop') || options.abortSignal?.aborted) {
+            results.push({ index, name: step.name, status: 'skipped', language });
+            continue;
+        }
+
+        const timeoutSecs = step.timeoutSecs ?? defaults.timeoutSecs;
+        const timeoutMs = timeoutSecs ? timeoutSecs * 1000 : undefined;
+        const cwd = step.cwd ?? defaults.cwd;
+        const executionOptions: ExecutionOptions = {
+            stdin: step.stdin === undefined ? undefined : decodeStdin(step.stdin, step.stdinEncoding),
+            limits: { ...defaults.limits, ...step.limits },
+            env: { ...defaults.env, ...step.env },
+            abortSignal: options.abortSignal,
+            captureArtifacts: options.captureArtifacts && language !== 'shell',
+            onOutput: options.onOutput && ((chunk) => options.onOutput?.({ ...chunk, step: index })),
+        };
+
+        log.debug('Running execution step', { index, name: step.name, language, cwd, timeoutMs });
+        const result =
+            language === 'shell'
+                ? await runCommand(step.command, cwd, timeoutMs, executionOptions)
+                : await executeCode(step.command, language, timeoutMs, cwd, executionOptions);
+
+        const stepResult: StepResult = {
+            index,
+            name: step.name,
+            status: result.exitCode === 0 ? 'succeeded' : 'failed',
+            ...result,
+            language,
+        };
+        results.push(stepResult);
+        options.onStepFinished?.(stepResult);
+        if (result.exitCode !== 0 && exitCode === 0) exitCode = result.exitCode;
+    }
+
+    const durationMs = Date.now() - startedAt;
+    log.info('Execution steps completed', {
+        steps: steps.length,
+        failed: results.filter((result) => result.status === 'failed').length,
+        skipped: results.filter((result) => result.status === 'skipped').length,
+        durationMs,
+    });
+    return { exitCode, succeeded: exitCode === 0, durationMs, steps: results };
+};
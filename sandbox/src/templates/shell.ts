@@ -4,6 +4,8 @@
 
 /* eslint-disable no-useless-escape */
 
+import { SECRETS_ENV_FILE } from '../consts.js';
+
 /**
  * Welcome Script Template - Runs when opening the shell
  */
@@ -91,6 +93,9 @@ export NODE_PATH="/sandbox/js-ts/node_modules"
 export VIRTUAL_ENV="/sandbox/py/venv"
 export PYTHONHOME=""
 
+# Load secrets from the Actor input (RAM-only file)
+[ -f ${SECRETS_ENV_FILE} ] && . ${SECRETS_ENV_FILE}
+
 # Configure Claude Code to use Apify OpenRouter proxy
 export ANTHROPIC_BASE_URL="https://openrouter.apify.actor/api"
 export ANTHROPIC_AUTH_TOKEN="\${APIFY_TOKEN}"
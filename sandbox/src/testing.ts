@@ -0,0 +1,462 @@
+// Structured test runs: pytest, jest and vitest are run with a machine-readable reporter (JUnit XML or JSON),
+// and the report is returned as suites and test cases instead of raw text output
+import crypto from 'node:crypto';
+import { constants as fsConstants, existsSync, promises as fs } from 'node:fs';
+import path from 'node:path';
+
+import { log } from 'apify';
+
+import { JS_TS_CODE_DIR, PYTHON_CODE_DIR, SANDBOX_DIR } from './consts.js';
+import { validateEnvironmentOverrides } from './environment.js';
+import { validateLimits } from './limits.js';
+import { runCommand } from './operations.js';
+import { shellQuote } from './runtimes.js';
+import type { ExceededLimit, ExecutionOptions, ResourceLimits } from './types.js';
+import { getUserSpawnOptions } from './user.js';
+
+export type TestFramework = 'pytest' | 'jest' | 'vitest';
+
+export const TEST_FRAMEWORKS: TestFramework[] = ['pytest', 'jest', 'vitest'];
+
+export type TestStatus = 'passed' | 'failed' | 'skipped' | 'error';
+
+/**
+ * Test run requested via POST /test or the MCP run_tests tool
+ */
+export interface TestRunRequest {
+    /**
+     * Detected from the working directory if omitted
+     */
+    framework?: TestFramework;
+    /**
+     * Defaults to /sandbox/py for pytest and /sandbox/js-ts for jest and vitest
+     */
+    cwd?: string;
+    /**
+     * Test files or directories to run (all tests if omitted)
+     */
+    paths?: string[];
+    /**
+     * Only run tests whose name matches (pytest -k expression, jest/vitest -t pattern)
+     */
+    filter?: string;
+    /**
+     * Additional command line arguments for the test framework
+     */
+    args?: string[];
+    timeoutSecs?: number;
+    env?: Record<string, string | null>;
+    limits?: ResourceLimits;
+}
+
+export interface TestCase {
+    name: string;
+    /**
+     * Name including the class, module or describe blocks
+     */
+    fullName: string;
+    status: TestStatus;
+    durationMs: number | null;
+    /**
+     * First line of the failure, error or skip reason
+     */
+    message?: string;
+    /**
+     * Full failure output (assertion diff, traceback)
+     */
+    details?: string;
+}
+
+export interface TestSuite {
+    name: string;
+    durationMs: number | null;
+    /**
+     * Error that prevented the suite from running (e.g. a syntax error in the test file)
+     */
+    error?: string;
+    tests: TestCase[];
+}
+
+export interface TestSummary {
+    total: number;
+    passed: number;
+    failed: number;
+    skipped: number;
+    /**
+     * Errored test cases and suites that failed to run
+     */
+    errors: number;
+}
+
+export interface TestRunResult {
+    framework: TestFramework;
+    cwd: string;
+    command: string;
+    exitCode: number;
+    /**
+     * True if the framework exited with 0 (all collected tests passed)
+     */
+    succeeded: boolean;
+    timedOut: boolean;
+    signal: NodeJS.Signals | null;
+    durationMs: number;
+    limitExceeded: ExceededLimit | null;
+    summary: TestSummary;
+    suites: TestSuite[];
+    /**
+     * Set if the framework did not produce a readable report (e.g. it is not installed or crashed)
+     */
+    reportError?: string;
+    stdout: string;
+    stderr: string;
+}
+
+/**
+ * Test run with its framework, directory and command resolved
+ */
+export interface PreparedTestRun {
+    framework: TestFramework;
+    cwd: string;
+    command: string;
+    reportFile: string;
+}
+
+/**
+ * Validate a test run request
+ * @returns Error message, or null if the request is valid
+ */
+export const validateTestRequest = (request: TestRunRequest): string | null => {
+    const { framework, cwd, paths, filter, args, timeoutSecs, env, limits } = request;
+    if (framework !== undefined && !TEST_FRAMEWORKS.includes(framework)) {
+        return `Invalid framework: ${framework}. Supported: ${TEST_FRAMEWORKS.join(', ')}`;
+    }
+    if (cwd !== undefined && typeof cwd !== 'string') return 'cwd must be a string';
+    for (const [key, value] of [
+        ['paths', paths],
+        ['args', args],
+    ] as const) {
+        if (value !== undefined && (!Array.isArray(value) || value.some((item) => typeof item !== 'string'))) {
+            return `${key} must be an array of strings`;
+        }
+    }
+    if (filter !== undefined && typeof filter !== 'string') return 'filter must be a string';
+    if (timeoutSecs !== undefined && (typeof timeoutSecs !== 'number' || !(timeoutSecs > 0))) {
+        return 'timeoutSecs must be a positive number';
+    }
+    return validateLimits(limits) ?? validateEnvironmentOverrides(env);
+};
+
+/**
+ * Dependencies and devDependencies from package.json in a directory
+ */
+const readPackageDependencies = async (dir: string): Promise<Record<string, string>> => {
+    try {
+        const packageJson = JSON.parse(await fs.readFile(path.join(dir, 'package.json'), 'utf8'));
+        return { ...packageJson.dependencies, ...packageJson.devDependencies };
+    } catch {
+        return {};
+    }
+};
+
+const hasAnyFile = (dir: string, names: string[]): boolean => names.some((name) => existsSync(path.join(dir, name)));
+
+const getConfigFiles = (tool: string): string[] =>
+    ['.ts', '.mts', '.cts', '.js', '.mjs', '.cjs', '.json'].map((extension) => `${tool}.config${extension}`);
+
+/**
+ * Detect the test framework of a project directory from its dependencies, config files and test file names
+ */
+const detectFramework = async (dir: string): Promise<TestFramework | undefined> => {
+    const dependencies = await readPackageDependencies(dir);
+    if (dependencies.vitest || hasAnyFile(dir, getConfigFiles('vitest'))) return 'vitest';
+    if (dependencies.jest || hasAnyFile(dir, getConfigFiles('jest'))) return 'jest';
+
+    if (hasAnyFile(dir, ['pytest.ini', 'conftest.py', path.join('tests', 'conftest.py')])) return 'pytest';
+    const pyproject = await fs.readFile(path.join(dir, 'pyproject.toml'), 'utf8').catch(() => '');
+    if (pyproject.includes('[tool.pytest')) return 'pytest';
+    for (const testDir of ['.', 'tests', 'test']) {
+        const files = await fs.readdir(path.join(dir, testDir)).catch((): string[] => []);
+        if (files.some((file) => /^test_.*\.py$|_test\.py$/.test(file))) return 'pytest';
+    }
+    return undefined;
+};
+
+/**
+ * Shell command that runs the framework with a reporter writing to reportFile
+ */
+const buildTestCommand = (
+    framework: TestFramework,
+    reportFile: string,
+    { paths = [], filter, args = [] }: TestRunRequest,
+): string => {
+    const filterArgs = filter === undefined ? [] : [framework === 'pytest' ? '-k' : '-t', filter];
+    const extraArgs = [...filterArgs, ...args, ...paths].map(shellQuote);
+    const report = shellQuote(reportFile);
+    switch (framework) {
+        case 'pytest':
+            // xunit1 adds the file and line of every test case
+            return ['python -m pytest', `--junit-xml=${report}`, '-o junit_family=xunit1', ...extraArgs].join(' ');
+        case 'jest':
+            return ['npx --no-install jest --json', `--outputFile=${report}`, ...extraArgs].join(' ');
+        default:
+            return [
+                'npx --no-install vitest run --reporter=default --reporter=json',
+                `--outputFile.json=${report}`,
+                ...extraArgs,
+            ].join(' ');
+    }
+};
+
+/**
+ * Resolve the framework, working directory and command of a test run
+ * Without cwd and framework, /sandbox/js-ts and /sandbox/py are checked for a test setup
+ * @returns Prepared run, or an error message if no framework could be detected
+ */
+export const prepareTestRun = async (request: TestRunRequest): Promise<PreparedTestRun | string> => {
+    let { framework } = request;
+    let cwd: string | undefined;
+    if (request.cwd) {
+        cwd = path.resolve(SANDBOX_DIR, request.cwd);
+        framework = framework ?? (await detectFramework(cwd));
+    } else if (framework) {
+        cwd = framework === 'pytest' ? PYTHON_CODE_DIR : JS_TS_CODE_DIR;
+    } else {
+        for (const dir of [JS_TS_CODE_DIR, PYTHON_CODE_DIR]) {
+            framework = await detectFramework(dir);
+            cwd = dir;
+            if (framework) break;
+        }
+    }
+    if (!framework || !cwd) {
+        return `Could not detect a test framework in ${cwd ?? SANDBOX_DIR}. Pass framework (${TEST_FRAMEWORKS.join(', ')})`;
+    }
+
+    const reportFile = path.join('/tmp', `test-report-${crypto.randomBytes(6).toString('hex')}`, 'report');
+    return { framework, cwd, command: buildTestCommand(framework, reportFile, request), reportFile };
+};
+
+const XML_ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+/**
+ * Decode XML entities and unwrap CDATA sections
+ */
+const decodeXmlText = (text: string): string =>
+    text.replace(
+        /<!\[CDATA\[([\s\S]*?)\]\]>|&(#x[0-9a-f]+|#\d+|lt|gt|amp|quot|apos);/gi,
+        (match, cdata: string | undefined, entity: string | undefined) => {
+            if (cdata !== undefined) return cdata;
+            if (!entity) return match;
+            if (entity.startsWith('#x') || entity.startsWith('#X')) {
+                return String.fromCodePoint(parseInt(entity.slice(2), 16));
+            }
+            if (entity.startsWith('#')) return String.fromCodePoint(parseInt(entity.slice(1), 10));
+            return XML_ENTITIES[entity.toLowerCase()] ?? match;
+        },
+    );
+
+const parseXmlAttributes = (source: string): Record<string, string> => {
+    const attributes: Record<string, string> = {};
+    for (const match of source.matchAll(/([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+        attributes[match[1]] = decodeXmlText(match[2] ?? match[3]);
+    }
+    return attributes;
+};
+
+const secondsToMs = (seconds?: string): number | null =>
+    seconds === undefined || Number.isNaN(Number(seconds)) ? null : Math.round(Number(seconds) * 1000);
+
+const getFirstLine = (text?: string): string | undefined => text?.trim().split('\n')[0] || undefined;
+
+const JUNIT_STATUSES: Record<string, TestStatus> = { failure: 'failed', error: 'error', skipped: 'skipped' };
+
+/**
+ * Parse a JUnit XML test case
+ * @returns The test case and the file it is defined in (if reported)
+ */
+const parseJUnitTestCase = (attributeSource: string, body = ''): { testCase: TestCase; file?: string } => {
+    const attributes = parseXmlAttributes(attributeSource);
+    const { name = '', classname } = attributes;
+    const testCase: TestCase = {
+        name,
+        fullName: classname ? `${classname}.${name}` : name,
+        status: 'passed',
+        durationMs: secondsToMs(attributes.time),
+    };
+
+    const outcome = /<(failure|error|skipped)\b([^>]*?)(?:\/>|>([\s\S]*?)<\/\1>)/.exec(body);
+    if (outcome) {
+        const [, kind, outcomeAttributes, outcomeBody] = outcome;
+        const details = outcomeBody ? decodeXmlText(outcomeBody).trim() : undefined;
+        testCase.status = JUNIT_STATUSES[kind];
+        testCase.message = getFirstLine(parseXmlAttributes(outcomeAttributes).message) ?? getFirstLine(details);
+        if (details) testCase.details = details;
+    }
+    return { testCase, file: attributes.file };
+};
+
+/**
+ * Parse a pytest JUnit XML report
+ * pytest reports all tests in a single suite, so test cases are grouped into suites by file
+ */
+const parsePytestReport = (xml: string): TestSuite[] => {
+    const suites = new Map<string, TestSuite>();
+    for (const match of xml.matchAll(/<testcase\b([^>]*?)(?:\/>|>([\s\S]*?)<\/testcase>)/g)) {
+        const { testCase, file } = parseJUnitTestCase(match[1], match[2]);
+        const name = file ?? testCase.fullName.split('.').slice(0, -1).join('.');
+        const suite = suites.get(name) ?? { name, durationMs: 0, tests: [] };
+        suite.tests.push(testCase);
+        suite.durationMs = (suite.durationMs ?? 0) + (testCase.durationMs ?? 0);
+        suites.set(name, suite);
+    }
+    return [...suites.values()];
+};
+
+interface JestAssertionResult {
+    title: string;
+    fullName?: string;
+    ancestorTitles?: string[];
+    status: string;
+    duration?: number | null;
+    failureMessages?: string[];
+}
+
+interface JestTestResult {
+    name: string;
+    status?: string;
+    message?: string;
+    startTime?: number;
+    endTime?: number;
+    assertionResults?: JestAssertionResult[];
+}
+
+const JEST_STATUSES: Record<string, TestStatus> = {
+    passed: 'passed',
+    failed: 'failed',
+    pending: 'skipped',
+    skipped: 'skipped',
+    todo: 'skipped',
+    disabled: 'skipped',
+};
+
+/**
+ * Parse a jest --json report (vitest's JSON reporter uses the same format)
+ */
+const parseJestReport = (json: string, cwd: string): TestSuite[] => {
+    const report = JSON.parse(json) as { testResults?: JestTestResult[] };
+    return (report.testResults ?? []).map((result) => {
+        const tests = (result.assertionResults ?? []).map((assertion): TestCase => {
+            const details = assertion.failureMessages?.join('\n').trim() || undefined;
+            return {
+                name: assertion.title,
+                fullName: assertion.fullName || [...(assertion.ancestorTitles ?? []), assertion.title].join(' '),
+                status: JEST_STATUSES[assertion.status] ?? 'error',
+                durationMs: typeof assertion.duration === 'number' ? Math.round(assertion.duration) : null,
+                ...(details && { message: getFirstLine(details), details }),
+            };
+        });
+        const suite: TestSuite = {
+            name: path.relative(cwd, result.name) || result.name,
+            durationMs:
+                result.startTime !== undefined && result.endTime !== undefined
+                    ? result.endTime - result.startTime
+                    : null,
+            tests,
+        };
+        // A suite that failed without failing tests could not run at all
+        if (result.status === 'failed' && result.message && !tests.some((test) => test.status === 'failed')) {
+            suite.error = result.message.trim();
+        }
+        return suite;
+    });
+};
+
+const summarize = (suites: TestSuite[]): TestSummary => {
+    const tests = suites.flatMap((suite) => suite.tests);
+    const count = (status: TestStatus) => tests.filter((test) => test.status === status).length;
+    return {
+        total: tests.length,
+        passed: count('passed'),
+        failed: count('failed'),
+        skipped: count('skipped'),
+        errors: count('error') + suites.filter((suite) => suite.error).length,
+    };
+};
+
+/**
+ * Read the report written by a test run
+ * The test run may have replaced the report with a symlink or hard link to a file only root can read, so symlinks
+ * are not followed and the report must be a regular file owned by the user the tests run as
+ */
+const readReport = async (reportFile: string): Promise<string> => {
+    // O_NONBLOCK keeps opening a FIFO from blocking
+    // eslint-disable-next-line no-bitwise
+    const handle = await fs.open(reportFile, fsConstants.O_RDONLY | fsConstants.O_NOFOLLOW | fsConstants.O_NONBLOCK);
+    try {
+        const stats = await handle.stat();
+        const { uid = process.getuid?.() } = getUserSpawnOptions();
+        if (!stats.isFile() || stats.uid !== uid) {
+            throw new Error('report is not a regular file written by the test run');
+        }
+        return await handle.readFile('utf8');
+    } finally {
+        await handle.close();
+    }
+};
+
+/**
+ * Run a prepared test run and parse its report
+ * The run must be checked against the command policy first
+ */
+export const runTests = async (
+    run: PreparedTestRun,
+    request: Pick<TestRunRequest, 'timeoutSecs' | 'env' | 'limits'> = {},
+    options: Pick<ExecutionOptions, 'onOutput' | 'abortSignal'> = {},
+): Promise<TestRunResult> => {
+    const reportDir = path.dirname(run.reportFile);
+    // Writable for executions running as the sandbox user
+    await fs.mkdir(reportDir, { recursive: true });
+    await fs.chmod(reportDir, 0o777);
+
+    log.info('Running tests', { framework: run.framework, cwd: run.cwd });
+    try {
+        const result = await runCommand(run.command, run.cwd, request.timeoutSecs && request.timeoutSecs * 1000, {
+            ...options,
+            limits: request.limits,
+            // No colors in failure messages, and no interactive or watch mode
+            env: { CI: '1', NO_COLOR: '1', FORCE_COLOR: '0', ...request.env },
+        });
+
+        let suites: TestSuite[] = [];
+        let reportError: string | undefined;
+        try {
+            const report = await readReport(run.reportFile);
+            suites = run.framework === 'pytest' ? parsePytestReport(report) : parseJestReport(report, run.cwd);
+        } catch (error) {
+            reportError =
+                (error as NodeJS.ErrnoException).code === 'ENOENT'
+                    ? `${run.framework} did not write a report, see stdout and stderr`
+                    : `Failed to parse the ${run.framework} report: ${(error as Error).message}`;
+        }
+
+        const summary = summarize(suites);
+        log.info('Tests completed', { framework: run.framework, exitCode: result.exitCode, ...summary });
+        return {
+            framework: run.framework,
+            cwd: run.cwd,
+            command: run.command,
+            exitCode: result.exitCode,
+            succeeded: result.exitCode === 0,
+            timedOut: result.timedOut,
+            signal: result.signal,
+            durationMs: result.durationMs,
+            limitExceeded: result.limitExceeded,
+            summary,
+            suites,
+            ...(reportError && { reportError }),
+            stdout: result.stdout,
+            stderr: result.stderr,
+        };
+    } finally {
+        await fs.rm(reportDir, { recursive: true, force: true });
+    }
+};
@@ -37,4 +37,267 @@ export interface ActorInput {
      * @default 600 (10 minutes)
      */
     idleTimeoutSeconds?: number;
+
+    /**
+     * Default resource limits applied to every /exec and MCP execute call
+     * Individual requests can override each limit (0 disables it)
+     * Example: { "maxMemoryMb": 1024, "maxCpuSecs": 60 }
+     */
+    executionLimits?: ResourceLimits;
+
+    /**
+     * Secret environment variables (API keys, tokens) for code execution and the shell
+     * Values are redacted from logs and outputs, and never written to persistent disk
+     * Format: { "VARIABLE_NAME": "value", ... }
+     */
+    secrets?: Record<string, string>;
+
+    /**
+     * Additional language runtimes for code execution, e.g. for interpreters installed via initShellScript
+     * Example: [{ "name": "lua", "extension": ".lua", "command": "lua {file}", "versionCommand": "lua -v" }]
+     */
+    runtimes?: RuntimeDefinition[];
+
+    /**
+     * Allow/deny rules for commands and code run via /exec, jobs, kernels and the MCP tools
+     * Example: { "rules": [{ "action": "deny", "command": "\\brm\\s+-rf\\s+/(\\s|$)", "reason": "Deleting / is not allowed" }] }
+     */
+    commandPolicy?: CommandPolicy;
+
+    /**
+     * Run /exec, jobs, kernels, PTY sessions, MCP tools and the shell terminal as the unprivileged sandbox user
+     * who owns /sandbox; the server, persistence and dependency installs keep running as root
+     * @default false
+     */
+    runAsSandboxUser?: boolean;
+
+    /**
+     * Outbound network access of executions and the shell
+     * Example: { "mode": "allowlist", "allowlist": ["pypi.org", "files.pythonhosted.org", "10.0.0.0/8"] }
+     */
+    egressPolicy?: EgressPolicy;
+}
+
+/**
+ * Network egress policy
+ */
+export interface EgressPolicy {
+    /**
+     * allowAll (default) leaves network access unrestricted, denyAll blocks all outbound connections,
+     * allowlist only allows the hosts in allowlist
+     */
+    mode?: 'allowAll' | 'denyAll' | 'allowlist';
+    /**
+     * Domains (matching their subdomains too), IP addresses and CIDR ranges
+     */
+    allowlist?: string[];
+}
+
+/**
+ * Outbound connection attempt denied by the egress policy
+ */
+export interface NetworkLogEntry {
+    timestamp: string;
+    host: string;
+    port: number;
+    /**
+     * CONNECT for tunneled (e.g. HTTPS) connections, otherwise the HTTP method
+     */
+    method: string;
+    reason: string;
+}
+
+/**
+ * Command policy: rules are evaluated in order, the first matching rule decides
+ */
+export interface CommandPolicy {
+    /**
+     * Action when no rule matches (defaults to allow)
+     */
+    defaultAction?: 'allow' | 'deny';
+    rules?: CommandPolicyRule[];
+}
+
+/**
+ * A rule matches an execution if all of its conditions match; a rule without conditions matches everything
+ */
+export interface CommandPolicyRule {
+    action: 'allow' | 'deny';
+    /**
+     * Regular expression matched against the command or code (multiline: ^ and $ match at line boundaries)
+     */
+    command?: string;
+    /**
+     * Language names or aliases; "shell" matches shell commands
+     */
+    languages?: string[];
+    /**
+     * Regular expression matched against the absolute working directory
+     */
+    cwd?: string;
+    /**
+     * Explanation included in the error returned for denied executions
+     */
+    reason?: string;
+}
+
+/**
+ * Language runtime for code execution
+ */
+export interface RuntimeDefinition {
+    /**
+     * Language name used in the `language` field of /exec and the MCP execute tool
+     */
+    name: string;
+    /**
+     * Alternative names for the language
+     */
+    aliases?: string[];
+    /**
+     * Extension of the temporary file the code is written to, including the dot
+     */
+    extension: string;
+    /**
+     * Shell command that runs the code file, with {file} as the placeholder for its path
+     */
+    command: string;
+    /**
+     * Default working directory (defaults to /sandbox)
+     */
+    cwd?: string;
+    /**
+     * Shell command that prints the runtime version; the runtime is listed as unavailable if it fails
+     */
+    versionCommand?: string;
+}
+
+/**
+ * Resource limits for a single execution
+ * The whole process tree is killed as soon as any limit is exceeded
+ */
+export interface ResourceLimits {
+    /**
+     * Maximum resident memory (RSS) of all processes together, in megabytes
+     */
+    maxMemoryMb?: number;
+
+    /**
+     * Maximum CPU time of all processes together, in seconds
+     */
+    maxCpuSecs?: number;
+
+    /**
+     * Maximum number of processes running at the same time
+     */
+    maxProcesses?: number;
+
+    /**
+     * Maximum combined size of stdout and stderr, in bytes
+     */
+    maxOutputBytes?: number;
+}
+
+/**
+ * Name of the resource limit that terminated an execution
+ */
+export type ExceededLimit = 'memory' | 'cpu' | 'processes' | 'output';
+
+/**
+ * A chunk of process output captured while a command is still running
+ */
+export interface OutputChunk {
+    stream: 'stdout' | 'stderr';
+    data: string;
+    /**
+     * ISO 8601 time at which the chunk was received
+     */
+    timestamp: string;
+    /**
+     * Index of the step that produced the chunk (batch executions only)
+     */
+    step?: number;
+}
+
+/**
+ * File produced by an execution in its artifacts directory
+ */
+export interface Artifact {
+    /**
+     * Path relative to the artifacts directory, e.g. "figure-1.png"
+     */
+    name: string;
+    /**
+     * Absolute path in the sandbox
+     */
+    path: string;
+    /**
+     * Download link relative to the server URL, e.g. "/fs/.artifacts/1a2b3c/figure-1.png"
+     */
+    url: string;
+    mimeType: string;
+    size: number;
+}
+
+/**
+ * Packages installed before an execution from the inline metadata of its code (see dependencies.ts)
+ */
+export interface DependencyInstallReport {
+    /**
+     * Requirements or package specs that were missing and got installed
+     */
+    installed: string[];
+    failed: { library: string; error: string }[];
+    /**
+     * Combined pip/npm output, kept apart from the program output
+     */
+    output: string;
+    /**
+     * Set when the execution timeout ran out during the install
+     */
+    timedOut: boolean;
+    durationMs: number;
+}
+
+/**
+ * Optional behavior for command and code execution
+ */
+export interface ExecutionOptions {
+    /**
+     * Called with every stdout/stderr chunk as soon as the process produces it
+     */
+    onOutput?: (chunk: OutputChunk) => void;
+
+    /**
+     * Data piped to the process standard input, which is closed afterwards
+     * When omitted, the process gets no standard input
+     */
+    stdin?: string | Buffer;
+
+    /**
+     * Resource limits, merged over the defaults from the Actor input
+     */
+    limits?: ResourceLimits;
+
+    /**
+     * Environment variables set on top of the execution environment
+     * A null value unsets an inherited variable
+     */
+    env?: Record<string, string | null>;
+
+    /**
+     * Terminates the execution (with its whole process group) when aborted, e.g. on client disconnect
+     */
+    abortSignal?: AbortSignal;
+
+    /**
+     * Give the execution its own artifacts directory (SANDBOX_ARTIFACTS_DIR) and return the files written to it
+     * Matplotlib figures are saved there automatically
+     */
+    captureArtifacts?: boolean;
+
+    /**
+     * Program arguments: appended (quoted) to the runtime command for code and files,
+     * and set as positional parameters ($1, $2, ...) for shell commands
+     */
+    args?: string[];
 }
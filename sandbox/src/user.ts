@@ -0,0 +1,86 @@
+// Unprivileged execution: with the runAsSandboxUser input, /exec, jobs, kernels, PTY sessions, MCP tools and
+// the shell terminal run as the sandbox user, who owns /sandbox but cannot modify /app or the server.
+// The Express server, persistence and dependency installs keep running as root, but never run binaries from the
+// venv or node_modules (owned by the sandbox user) as root
+import { exec } from 'node:child_process';
+import { existsSync, promises as fs } from 'node:fs';
+import path from 'node:path';
+import { promisify } from 'node:util';
+
+import { log } from 'apify';
+
+import { SANDBOX_DIR, SANDBOX_USER, SECRETS_ENV_FILE } from './consts.js';
+
+const execAsync = promisify(exec);
+
+interface SandboxUser {
+    name: string;
+    uid: number;
+    gid: number;
+    home: string;
+}
+
+let sandboxUser: SandboxUser | undefined;
+
+/**
+ * Look up a user in /etc/passwd
+ */
+const lookupUser = async (name: string): Promise<SandboxUser | undefined> => {
+    const passwd = await fs.readFile('/etc/passwd', 'utf8');
+    for (const line of passwd.split('\n')) {
+        const [userName, , uid, gid, , home] = line.split(':');
+        if (userName === name) return { name, uid: Number(uid), gid: Number(gid), home };
+    }
+    return undefined;
+};
+
+/**
+ * Switch executions to the sandbox user
+ * Must run after dependency installation and the init script (they need root) and before serving requests
+ * Throws if the user does not exist, so callers can fail closed instead of running user code as root
+ */
+export const initializeSandboxUser = async (): Promise<void> => {
+    const user = await lookupUser(SANDBOX_USER);
+    if (!user) throw new Error(`User ${SANDBOX_USER} does not exist`);
+
+    // Files created during startup (dependencies, init script, migration restore) belong to root
+    await execAsync(`chown -R ${user.uid}:${user.gid} ${SANDBOX_DIR}`);
+    await fs.mkdir(user.home, { recursive: true });
+    await fs.chown(user.home, user.uid, user.gid);
+    // The shell terminal sources the secrets env file
+    if (existsSync(SECRETS_ENV_FILE)) await fs.chown(SECRETS_ENV_FILE, user.uid, user.gid);
+
+    sandboxUser = user;
+    log.info('Executions run as unprivileged user', { user: user.name, uid: user.uid, gid: user.gid });
+};
+
+/**
+ * uid/gid options for child_process.spawn (empty if executions run as root)
+ */
+export const getUserSpawnOptions = (): { uid?: number; gid?: number } =>
+    sandboxUser ? { uid: sandboxUser.uid, gid: sandboxUser.gid } : {};
+
+/**
+ * Environment variables describing the user executions run as (empty if executions run as root)
+ */
+export const getUserEnvironment = (): Record<string, string> =>
+    sandboxUser ? { HOME: sandboxUser.home, USER: sandboxUser.name, LOGNAME: sandboxUser.name } : {};
+
+/**
+ * Give a path under /sandbox created by the server on behalf of a request (e.g. via /fs) to the sandbox user
+ * @param target - File or directory to chown
+ * @param createdDir - First directory created by fs.mkdir with recursive: true; directories from it down to the
+ * target are chowned as well
+ */
+export const chownToSandboxUser = async (target: string, createdDir?: string): Promise<void> => {
+    if (!sandboxUser || !target.startsWith(SANDBOX_DIR)) return;
+    const paths = [target];
+    if (createdDir) {
+        for (let dir = path.dirname(target); dir.startsWith(createdDir); dir = path.dirname(dir)) paths.push(dir);
+    }
+    try {
+        for (const entry of paths) await fs.lchown(entry, sandboxUser.uid, sandboxUser.gid);
+    } catch (error) {
+        log.warning('Failed to change owner to sandbox user', { path: target, error: (error as Error).message });
+    }
+};
@@ -14,6 +14,8 @@
 
 import { spawn } from 'node:child_process';
 
+import { WebSocket } from 'ws';
+
 // Colors for console output
 const colors = {
     reset: '\x1b[0m',
@@ -599,6 +601,620 @@ async function runAllTests(baseUrl: string): Promise<void> {
         'Execute /exec - Python default working directory',
     );
 
+    // Execute /exec - stdin piped to a shell command
+    await testEndpointWithOutputValidation(
+        baseUrl,
+        'POST',
+        '/exec',
+        { command: 'tr a-z A-Z', stdin: 'hello stdin' },
+        200,
+        'HELLO STDIN',
+        'Execute /exec - stdin text',
+    );
+
+    // Execute /exec - base64 stdin read by Python
+    await testEndpointWithOutputValidation(
+        baseUrl,
+        'POST',
+        '/exec',
+        {
+            command: 'import sys\nprint(sys.stdin.read().upper())',
+            language: 'py',
+            stdin: Buffer.from('binary stdin').toString('base64'),
+            stdinEncoding: 'base64',
+        },
+        200,
+        'BINARY STDIN',
+        'Execute /exec - stdin base64',
+    );
+
+    // Execute /exec - per-request environment variables
+    await testEndpointWithOutputValidation(
+        baseUrl,
+        'POST',
+        '/exec',
+        { command: 'echo "$GREETING" "$(printenv HOME || echo unset)"', env: { GREETING: 'hello env', HOME: null } },
+        200,
+        'hello env unset',
+        'Execute /exec - env overrides',
+    );
+
+    // Execute /exec - secrets are injected but redacted from the output
+    await testEndpointWithOutputValidation(
+        baseUrl,
+        'POST',
+        '/exec',
+        { command: 'echo "$E2E_SECRET"' },
+        200,
+        '[REDACTED:E2E_SECRET]',
+        'Execute /exec - secrets redacted',
+    );
+
+    // Execute /exec - timeout kills background children too, so the response is not held open by them
+    {
+        const testName = 'Execute /exec - timeout kills process group';
+        try {
+            const response = await fetch(`${baseUrl}/exec`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ command: 'sleep 60 & sleep 60', timeoutSecs: 1 }),
+            });
+            const data = (await response.json()) as { timedOut?: boolean; signal?: string | null; durationMs?: number };
+
+            if (data.timedOut === true && data.signal === 'SIGTERM' && (data.durationMs ?? Infinity) < 10000) {
+                console.log(`${colors.green}✓${colors.reset} ${testName}`);
+                results.push({ name: testName, passed: true });
+            } else {
+                const errorMsg = `Unexpected timeout result: ${JSON.stringify(data)}`;
+                console.log(`${colors.red}✗${colors.reset} ${testName}: ${errorMsg}`);
+                results.push({ name: testName, passed: false, error: errorMsg });
+            }
+        } catch (error) {
+            const errorMsg = error instanceof Error ? error.message : String(error);
+            console.log(`${colors.red}✗${colors.reset} ${testName}: ${errorMsg}`);
+            results.push({ name: testName, passed: false, error: errorMsg });
+        }
+    }
+
+    // Execute /exec/pty - interactive command in a pseudo-terminal over WebSocket
+    {
+        const testName = 'Execute /exec/pty - interactive input and exit';
+        try {
+            const command = encodeURIComponent('read -p "Name? " name; echo "hello $name"; exit 3');
+            const ws = new WebSocket(`${baseUrl.replace(/^http/, 'ws')}/exec/pty?command=${command}`);
+            const { output, exit } = await new Promise<{ output: string; exit?: { exitCode: number | null } }>(
+                (resolve, reject) => {
+                    let received = '';
+                    let exitMessage: { exitCode: number | null } | undefined;
+                    const timer = setTimeout(() => reject(new Error('Timed out waiting for PTY exit')), 30000);
+                    ws.on('message', (raw) => {
+                        const message = JSON.parse(raw.toString());
+                        if (message.type === 'output') {
+                            received += message.data;
+                            if (received.includes('Name?')) ws.send(JSON.stringify({ type: 'input', data: 'pty\r' }));
+                        } else if (message.type === 'exit') {
+                            exitMessage = message;
+                        }
+                    });
+                    ws.on('close', () => {
+                        clearTimeout(timer);
+                        resolve({ output: received, exit: exitMessage });
+                    });
+                    ws.on('error', reject);
+                },
+            );
+
+            if (output.includes('hello pty') && exit?.exitCode === 3) {
+                console.log(`${colors.green}✓${colors.reset} ${testName}`);
+                results.push({ name: testName, passed: true });
+            } else {
+                const errorMsg = `Unexpected PTY session: ${JSON.stringify({ output, exit })}`;
+                console.log(`${colors.red}✗${colors.reset} ${testName}: ${errorMsg}`);
+                results.push({ name: testName, passed: false, error: errorMsg });
+            }
+        } catch (error) {
+            const errorMsg = error instanceof Error ? error.message : String(error);
+            console.log(`${colors.red}✗${colors.reset} ${testName}: ${errorMsg}`);
+            results.push({ name: testName, passed: false, error: errorMsg });
+        }
+    }
+
+    // Execute /exec - invalid resource limits
+    await testEndpoint(
+        baseUrl,
+        'POST',
+        '/exec',
+        { command: 'echo test', limits: { maxMemoryMb: -1 } },
+        400,
+        'Execute /exec - invalid limits',
+    );
+
+    // Execute /exec - resource limits kill the process and report the exceeded limit
+    for (const [limit, body] of [
+        ['memory', { command: 'data = bytearray(512 * 1024 * 1024)', language: 'py', limits: { maxMemoryMb: 128 } }],
+        ['output', { command: 'yes | head -c 100000', limits: { maxOutputBytes: 100 } }],
+    ] as const) {
+        const testName = `Execute /exec - ${limit} limit`;
+        try {
+            const response = await fetch(`${baseUrl}/exec`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(body),
+            });
+            const data = (await response.json()) as { limitExceeded?: string | null };
+
+            if (data.limitExceeded === limit) {
+                console.log(`${colors.green}✓${colors.reset} ${testName}`);
+                results.push({ name: testName, passed: true });
+            } else {
+                const errorMsg = `Expected limitExceeded "${limit}", got ${JSON.stringify(data)}`;
+                console.log(`${colors.red}✗${colors.reset} ${testName}: ${errorMsg}`);
+                results.push({ name: testName, passed: false, error: errorMsg });
+            }
+        } catch (error) {
+            const errorMsg = error instanceof Error ? error.message : String(error);
+            console.log(`${colors.red}✗${colors.reset} ${testName}: ${errorMsg}`);
+            results.push({ name: testName, passed: false, error: errorMsg });
+        }
+    }
+
+    // Execute /exec - streaming output as Server-Sent Events
+    try {
+        const response = await fetch(`${baseUrl}/exec`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ command: 'echo "stream test"; echo "stream err" >&2', stream: true }),
+        });
+        const body = await response.text();
+
+        if (
+            response.status === 200 &&
+            response.headers.get('content-type')?.includes('text/event-stream') &&
+            body.includes('event: stdout') &&
+            body.includes('stream test') &&
+            body.includes('event: stderr') &&
+            body.includes('event: exit') &&
+            body.includes('"exitCode":0')
+        ) {
+            console.log(`${colors.green}✓${colors.reset} Execute /exec - streaming output`);
+            results.push({ name: 'Execute /exec - streaming output', passed: true });
+        } else {
+            const errorMsg = `Unexpected SSE response (status ${response.status}): "${body}"`;
+            console.log(`${colors.red}✗${colors.reset} Execute /exec - streaming output: ${errorMsg}`);
+            results.push({ name: 'Execute /exec - streaming output', passed: false, error: errorMsg });
+        }
+    } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        console.log(`${colors.red}✗${colors.reset} Execute /exec - streaming output: ${errorMsg}`);
+        results.push({ name: 'Execute /exec - streaming output', passed: false, error: errorMsg });
+    }
+
+    // ========================================================================
+    // Command Policy Tests
+    // ========================================================================
+
+    // Commands matching a deny rule are rejected
+    await testEndpoint(
+        baseUrl,
+        'POST',
+        '/exec',
+        { command: 'shutdown -h now' },
+        403,
+        'Execute /exec - denied by policy',
+    );
+
+    // A denied step rejects the whole batch
+    await testEndpoint(
+        baseUrl,
+        'POST',
+        '/exec',
+        { steps: [{ command: 'echo allowed' }, { command: 'shutdown -r' }] },
+        403,
+        'Execute /exec - step denied by policy',
+    );
+
+    // ========================================================================
+    // Batch Execution Tests (/exec with steps)
+    // ========================================================================
+
+    // Invalid steps
+    await testEndpoint(
+        baseUrl,
+        'POST',
+        '/exec',
+        { steps: [{ language: 'py' }] },
+        400,
+        'Execute /exec - step without command',
+    );
+
+    // Remaining steps are skipped after a failure
+    try {
+        const response = await fetch(`${baseUrl}/exec`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                steps: [
+                    { name: 'shell', command: 'echo first' },
+                    { name: 'python', command: 'print("second")', language: 'py' },
+                    { name: 'fail', command: 'exit 7' },
+                    { name: 'skipped', command: 'echo never' },
+                ],
+            }),
+        });
+        const data = (await response.json()) as { exitCode: number; steps: { status: string; stdout?: string }[] };
+        const statuses = data.steps.map((step) => step.status).join(',');
+
+        if (
+            response.status === 500 &&
+            data.exitCode === 7 &&
+            statuses === 'succeeded,succeeded,failed,skipped' &&
+            data.steps[1].stdout?.includes('second')
+        ) {
+            console.log(`${colors.green}✓${colors.reset} Execute /exec - steps stop on failure`);
+            results.push({ name: 'Execute /exec - steps stop on failure', passed: true });
+        } else {
+            const errorMsg = `Unexpected steps result (status ${response.status}): ${JSON.stringify(data)}`;
+            console.log(`${colors.red}✗${colors.reset} Execute /exec - steps stop on failure: ${errorMsg}`);
+            results.push({ name: 'Execute /exec - steps stop on failure', passed: false, error: errorMsg });
+        }
+    } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        console.log(`${colors.red}✗${colors.reset} Execute /exec - steps stop on failure: ${errorMsg}`);
+        results.push({ name: 'Execute /exec - steps stop on failure', passed: false, error: errorMsg });
+    }
+
+    // ========================================================================
+    // Artifacts Tests
+    // ========================================================================
+
+    // Matplotlib figures are captured without plt.show(), files written to SANDBOX_ARTIFACTS_DIR are returned
+    try {
+        const code = [
+            'import os',
+            'import matplotlib.pyplot as plt',
+            'plt.plot([1, 2, 3], [1, 4, 9])',
+            "open(os.path.join(os.environ['SANDBOX_ARTIFACTS_DIR'], 'table.csv'), 'w').write('x,y\\n1,1\\n')",
+        ].join('\n');
+        const response = await fetch(`${baseUrl}/exec`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ command: code, language: 'py', timeoutSecs: 60 }),
+        });
+        const data = (await response.json()) as { artifacts?: { name: string; url: string; mimeType: string }[] };
+        const figure = data.artifacts?.find((artifact) => artifact.name === 'figure-1.png');
+        const figureResponse = figure ? await fetch(`${baseUrl}${figure.url}`) : undefined;
+
+        if (
+            response.status === 200 &&
+            figure?.mimeType === 'image/png' &&
+            figureResponse?.status === 200 &&
+            data.artifacts?.some((artifact) => artifact.name === 'table.csv')
+        ) {
+            console.log(`${colors.green}✓${colors.reset} Execute /exec - artifacts and matplotlib figures`);
+            results.push({ name: 'Execute /exec - artifacts and matplotlib figures', passed: true });
+        } else {
+            const errorMsg = `Unexpected artifacts (status ${response.status}): ${JSON.stringify(data)}`;
+            console.log(`${colors.red}✗${colors.reset} Execute /exec - artifacts and matplotlib figures: ${errorMsg}`);
+            results.push({ name: 'Execute /exec - artifacts and matplotlib figures', passed: false, error: errorMsg });
+        }
+    } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        console.log(`${colors.red}✗${colors.reset} Execute /exec - artifacts and matplotlib figures: ${errorMsg}`);
+        results.push({ name: 'Execute /exec - artifacts and matplotlib figures', passed: false, error: errorMsg });
+    }
+
+    // ========================================================================
+    // Unprivileged Execution Tests (runAsSandboxUser input)
+    // ========================================================================
+
+    // Commands run as the sandbox user, who owns /sandbox but cannot modify /app
+    await testEndpointWithOutputValidation(
+        baseUrl,
+        'POST',
+        '/exec',
+        { command: 'test -w /sandbox && test ! -w /app && echo "user=$(whoami)"' },
+        200,
+        'user=sandbox',
+        'Execute /exec - runs as unprivileged sandbox user',
+    );
+
+    // ========================================================================
+    // Test Runner Tests (/test)
+    // ========================================================================
+
+    // POST /test - pytest results are parsed into suites and test cases
+    try {
+        await fetch(`${baseUrl}/fs/e2e-tests/test_e2e.py`, {
+            method: 'PUT',
+            body: 'def test_pass():\n    assert True\n\ndef test_fail():\n    assert 1 == 2, "expected failure"\n',
+        });
+        const response = await fetch(`${baseUrl}/test`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ cwd: 'e2e-tests' }),
+        });
+        const data = (await response.json()) as {
+            framework: string;
+            summary: { total: number; passed: number; failed: number };
+            suites: { tests: { name: string; status: string; message?: string }[] }[];
+        };
+        const failed = data.suites?.flatMap((suite) => suite.tests).find((test) => test.name === 'test_fail');
+
+        if (
+            response.status === 200 &&
+            data.framework === 'pytest' &&
+            data.summary.total === 2 &&
+            data.summary.passed === 1 &&
+            failed?.status === 'failed' &&
+            failed.message?.includes('expected failure')
+        ) {
+            console.log(`${colors.green}✓${colors.reset} POST /test - structured pytest results`);
+            results.push({ name: 'POST /test - structured pytest results', passed: true });
+        } else {
+            const errorMsg = `Unexpected test results (status ${response.status}): ${JSON.stringify(data)}`;
+            console.log(`${colors.red}✗${colors.reset} POST /test - structured pytest results: ${errorMsg}`);
+            results.push({ name: 'POST /test - structured pytest results', passed: false, error: errorMsg });
+        }
+    } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        console.log(`${colors.red}✗${colors.reset} POST /test - structured pytest results: ${errorMsg}`);
+        results.push({ name: 'POST /test - structured pytest results', passed: false, error: errorMsg });
+    }
+
+    // ========================================================================
+    // Static Check Tests (/check)
+    // ========================================================================
+
+    // POST /check - tsc errors in code are returned as diagnostics
+    try {
+        const response = await fetch(`${baseUrl}/check`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ language: 'ts', code: 'const count: number = "one";\n' }),
+        });
+        const data = (await response.json()) as {
+            succeeded: boolean;
+            diagnostics: { file: string; line: number; severity: string; rule: string | null }[];
+        };
+        const diagnostic = data.diagnostics?.[0];
+
+        if (
+            response.status === 200 &&
+            !data.succeeded &&
+            diagnostic?.file === '<code>' &&
+            diagnostic.line === 1 &&
+            diagnostic.severity === 'error' &&
+            diagnostic.rule === 'TS2322'
+        ) {
+            console.log(`${colors.green}✓${colors.reset} POST /check - tsc diagnostics`);
+            results.push({ name: 'POST /check - tsc diagnostics', passed: true });
+        } else {
+            const errorMsg = `Unexpected diagnostics (status ${response.status}): ${JSON.stringify(data)}`;
+            console.log(`${colors.red}✗${colors.reset} POST /check - tsc diagnostics: ${errorMsg}`);
+            results.push({ name: 'POST /check - tsc diagnostics', passed: false, error: errorMsg });
+        }
+    } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        console.log(`${colors.red}✗${colors.reset} POST /check - tsc diagnostics: ${errorMsg}`);
+        results.push({ name: 'POST /check - tsc diagnostics', passed: false, error: errorMsg });
+    }
+
+    // ========================================================================
+    // Network Egress Tests (egressPolicy input)
+    // ========================================================================
+
+    // Hosts outside the allowlist are denied by the egress proxy
+    await testEndpointWithOutputValidation(
+        baseUrl,
+        'POST',
+        '/exec',
+        { command: 'curl -s -o /dev/null -w "status=%{http_code}" http://example.com' },
+        200,
+        'status=403',
+        'Execute /exec - egress policy denies host outside allowlist',
+    );
+
+    // GET /network/log reports the denied attempt
+    try {
+        const response = await fetch(`${baseUrl}/network/log`);
+        const data = (await response.json()) as { mode: string; entries: { host: string }[] };
+
+        if (
+            response.status === 200 &&
+            data.mode === 'allowlist' &&
+            data.entries.some((entry) => entry.host === 'example.com')
+        ) {
+            console.log(`${colors.green}✓${colors.reset} GET /network/log - reports denied connections`);
+            results.push({ name: 'GET /network/log - reports denied connections', passed: true });
+        } else {
+            const errorMsg = `Unexpected network log (status ${response.status}): ${JSON.stringify(data)}`;
+            console.log(`${colors.red}✗${colors.reset} GET /network/log - reports denied connections: ${errorMsg}`);
+            results.push({ name: 'GET /network/log - reports denied connections', passed: false, error: errorMsg });
+        }
+    } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        console.log(`${colors.red}✗${colors.reset} GET /network/log - reports denied connections: ${errorMsg}`);
+        results.push({ name: 'GET /network/log - reports denied connections', passed: false, error: errorMsg });
+    }
+
+    // ========================================================================
+    // Language Runtime Tests (/runtimes)
+    // ========================================================================
+
+    // Custom runtime from the Actor input
+    await testEndpointWithOutputValidation(
+        baseUrl,
+        'POST',
+        '/exec',
+        { command: 'print("custom runtime")', language: 'e2epy' },
+        200,
+        'custom runtime',
+        'Execute /exec - custom runtime from input',
+    );
+
+    // Arguments are passed to code snippets without shell interpretation
+    await testEndpointWithOutputValidation(
+        baseUrl,
+        'POST',
+        '/exec',
+        { command: 'import sys; print("argv=" + "|".join(sys.argv[1:]))', language: 'py', args: ['a b', '$HOME'] },
+        200,
+        'argv=a b|$HOME',
+        'Execute /exec - code with args',
+    );
+
+    // Script files from /sandbox run with the runtime detected from their extension
+    await fetch(`${baseUrl}/fs/e2e-scripts/args.js`, {
+        method: 'PUT',
+        body: 'console.log("file args: " + process.argv.slice(2).join(","));\n',
+    });
+    await testEndpointWithOutputValidation(
+        baseUrl,
+        'POST',
+        '/exec',
+        { file: 'e2e-scripts/args.js', args: ['--dry-run', '10'] },
+        200,
+        'file args: --dry-run,10',
+        'Execute /exec - script file with args',
+    );
+
+    // PEP 723 inline script metadata installs missing packages before the code runs
+    await testEndpointWithOutputValidation(
+        baseUrl,
+        'POST',
+        '/exec',
+        {
+            command: [
+                '# /// script',
+                '# dependencies = ["tabulate"]',
+                '# ///',
+                'from tabulate import tabulate',
+                'print(tabulate([["inline", "deps"]]))',
+            ].join('\n'),
+            language: 'py',
+        },
+        200,
+        'inline',
+        'Execute /exec - PEP 723 inline dependencies',
+    );
+
+    // GET /runtimes lists built-in and custom runtimes with availability
+    try {
+        const response = await fetch(`${baseUrl}/runtimes`);
+        const data = (await response.json()) as { runtimes: { name: string; available: boolean }[] };
+        const available = (name: string) => data.runtimes.find((runtime) => runtime.name === name)?.available;
+
+        if (response.status === 200 && available('py') && available('js') && available('e2e-python')) {
+            console.log(`${colors.green}✓${colors.reset} GET /runtimes - lists available runtimes`);
+            results.push({ name: 'GET /runtimes - lists available runtimes', passed: true });
+        } else {
+            const errorMsg = `Unexpected runtimes (status ${response.status}): ${JSON.stringify(data)}`;
+            console.log(`${colors.red}✗${colors.reset} GET /runtimes - lists available runtimes: ${errorMsg}`);
+            results.push({ name: 'GET /runtimes - lists available runtimes', passed: false, error: errorMsg });
+        }
+    } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        console.log(`${colors.red}✗${colors.reset} GET /runtimes - lists available runtimes: ${errorMsg}`);
+        results.push({ name: 'GET /runtimes - lists available runtimes', passed: false, error: errorMsg });
+    }
+
+    // ========================================================================
+    // Background Jobs Tests (/jobs)
+    // ========================================================================
+
+    // POST /jobs - missing command
+    await testEndpoint(baseUrl, 'POST', '/jobs', {}, 400, 'POST /jobs - missing command field');
+
+    // GET /jobs/:id - unknown job
+    await testEndpoint(baseUrl, 'GET', '/jobs/non-existent-job', null, 404, 'GET /jobs/:id - Non-existent job (404)');
+
+    // Start a job, poll its output and kill it
+    try {
+        const startResponse = await fetch(`${baseUrl}/jobs`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ command: 'echo "job started"; sleep 300' }),
+        });
+        const job = (await startResponse.json()) as { id: string; status: string };
+
+        await new Promise((resolve) => {
+            setTimeout(resolve, 2000);
+        });
+
+        const outputResponse = await fetch(`${baseUrl}/jobs/${job.id}/output?offset=0`);
+        const output = (await outputResponse.json()) as { output: string; status: string };
+
+        const killResponse = await fetch(`${baseUrl}/jobs/${job.id}`, { method: 'DELETE' });
+        const killed = (await killResponse.json()) as { status: string };
+
+        if (
+            startResponse.status === 201 &&
+            output.status === 'running' &&
+            output.output.includes('job started') &&
+            killed.status === 'killed'
+        ) {
+            console.log(`${colors.green}✓${colors.reset} Jobs - start, read output and kill`);
+            results.push({ name: 'Jobs - start, read output and kill', passed: true });
+        } else {
+            const errorMsg = `Unexpected job lifecycle: start=${startResponse.status}, output=${JSON.stringify(output)}, kill=${JSON.stringify(killed)}`;
+            console.log(`${colors.red}✗${colors.reset} Jobs - start, read output and kill: ${errorMsg}`);
+            results.push({ name: 'Jobs - start, read output and kill', passed: false, error: errorMsg });
+        }
+    } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        console.log(`${colors.red}✗${colors.reset} Jobs - start, read output and kill: ${errorMsg}`);
+        results.push({ name: 'Jobs - start, read output and kill', passed: false, error: errorMsg });
+    }
+
+    // ========================================================================
+    // Stateful Kernel Tests (/kernels)
+    // ========================================================================
+
+    // POST /kernels - unsupported language
+    await testEndpoint(baseUrl, 'POST', '/kernels', { language: 'ts' }, 400, 'POST /kernels - unsupported language');
+
+    // Kernel keeps variables between executions
+    for (const [language, setup, check, expected] of [
+        ['py', 'x = 21', 'print(x * 2)', '42'],
+        ['js', 'const x = 21;', 'console.log(x * 2)', '42'],
+    ]) {
+        const testName = `Kernels - ${language} state persists between executions`;
+        try {
+            const createResponse = await fetch(`${baseUrl}/kernels`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ language }),
+            });
+            const kernel = (await createResponse.json()) as { id: string };
+
+            const execute = async (code: string) => {
+                const response = await fetch(`${baseUrl}/kernels/${kernel.id}/execute`, {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ code }),
+                });
+                return (await response.json()) as { stdout: string; error: string | null };
+            };
+
+            await execute(setup);
+            const result = await execute(check);
+            await fetch(`${baseUrl}/kernels/${kernel.id}`, { method: 'DELETE' });
+
+            if (createResponse.status === 201 && result.error === null && result.stdout.includes(expected)) {
+                console.log(`${colors.green}✓${colors.reset} ${testName}`);
+                results.push({ name: testName, passed: true });
+            } else {
+                const errorMsg = `Unexpected kernel result: ${JSON.stringify(result)}`;
+                console.log(`${colors.red}✗${colors.reset} ${testName}: ${errorMsg}`);
+                results.push({ name: testName, passed: false, error: errorMsg });
+            }
+        } catch (error) {
+            const errorMsg = error instanceof Error ? error.message : String(error);
+            console.log(`${colors.red}✗${colors.reset} ${testName}: ${errorMsg}`);
+            results.push({ name: testName, passed: false, error: errorMsg });
+        }
+    }
+
     // ========================================================================
     // Filesystem Endpoints Tests (GET/PUT/POST/DELETE /fs/*)
     // ========================================================================
@@ -653,6 +1269,75 @@ async function runAllTests(baseUrl: string): Promise<void> {
         'PUT /fs/* - Create file in nested directory',
     );
 
+    // GET /fs/* - Recursive listing with an include glob and pagination
+    try {
+        await fetch(`${baseUrl}/fs${testFsNestedDir}/deep.txt`, { method: 'PUT', body: 'Deep file content' });
+        const listResponse = await fetch(`${baseUrl}/fs/test-fs-parent?recursive=1&include=*.txt&limit=1`);
+        const listing = (await listResponse.json()) as {
+            entries: { path: string }[];
+            total: number;
+            nextCursor?: string;
+        };
+        const nextResponse = await fetch(
+            `${baseUrl}/fs/test-fs-parent?recursive=1&include=*.txt&limit=1&cursor=${listing.nextCursor}`,
+        );
+        const nextPage = (await nextResponse.json()) as { entries: { path: string }[]; nextCursor?: string };
+
+        if (
+            listing.total === 2 &&
+            listing.entries[0]?.path === 'nested-file.txt' &&
+            nextPage.entries[0]?.path === 'test-fs-child/deep.txt' &&
+            !nextPage.nextCursor
+        ) {
+            console.log(`${colors.green}✓${colors.reset} GET /fs/* - Recursive listing with include and cursor`);
+            results.push({ name: 'GET /fs/* - Recursive listing with include and cursor', passed: true });
+        } else {
+            const errorMsg = `Unexpected listing: ${JSON.stringify(listing)}, next page ${JSON.stringify(nextPage)}`;
+            console.log(
+                `${colors.red}✗${colors.reset} GET /fs/* - Recursive listing with include and cursor: ${errorMsg}`,
+            );
+            results.push({
+                name: 'GET /fs/* - Recursive listing with include and cursor',
+                passed: false,
+                error: errorMsg,
+            });
+        }
+    } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        console.log(`${colors.red}✗${colors.reset} GET /fs/* - Recursive listing with include and cursor: ${errorMsg}`);
+        results.push({ name: 'GET /fs/* - Recursive listing with include and cursor', passed: false, error: errorMsg });
+    }
+
+    // GET /search - Literal content search scoped to a directory
+    try {
+        const searchResponse = await fetch(
+            `${baseUrl}/search?query=${encodeURIComponent('file content')}&literal=1&path=test-fs-parent`,
+        );
+        const search = (await searchResponse.json()) as {
+            matches: { path: string; line: number; column: number }[];
+            filesMatched: number;
+        };
+        const deepMatch = search.matches.find((match) => match.path === 'test-fs-parent/test-fs-child/deep.txt');
+
+        if (
+            searchResponse.status === 200 &&
+            search.filesMatched === 2 &&
+            deepMatch?.line === 1 &&
+            deepMatch.column === 6
+        ) {
+            console.log(`${colors.green}✓${colors.reset} GET /search - Literal search with path scope`);
+            results.push({ name: 'GET /search - Literal search with path scope', passed: true });
+        } else {
+            const errorMsg = `Unexpected response ${searchResponse.status}: ${JSON.stringify(search)}`;
+            console.log(`${colors.red}✗${colors.reset} GET /search - Literal search with path scope: ${errorMsg}`);
+            results.push({ name: 'GET /search - Literal search with path scope', passed: false, error: errorMsg });
+        }
+    } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        console.log(`${colors.red}✗${colors.reset} GET /search - Literal search with path scope: ${errorMsg}`);
+        results.push({ name: 'GET /search - Literal search with path scope', passed: false, error: errorMsg });
+    }
+
     // POST /fs/* - Append to file with append=1
     await testFsEndpoint(
         baseUrl,
@@ -677,6 +1362,90 @@ async function runAllTests(baseUrl: string): Promise<void> {
     // HEAD /fs/* - Get file metadata
     await testFsEndpoint(baseUrl, 'HEAD', `/fs${testFsFile}`, null, 200, 'HEAD /fs/* - Get file metadata');
 
+    // GET /fs/* - Range requests and conditional requests with the ETag
+    try {
+        const rangeResponse = await fetch(`${baseUrl}/fs${testFsFile}`, { headers: { Range: 'bytes=0-6' } });
+        const rangeText = await rangeResponse.text();
+        const etag = rangeResponse.headers.get('etag') ?? '';
+        const cachedResponse = await fetch(`${baseUrl}/fs${testFsFile}`, { headers: { 'If-None-Match': etag } });
+
+        if (rangeResponse.status === 206 && rangeText === 'Updated' && etag && cachedResponse.status === 304) {
+            console.log(`${colors.green}✓${colors.reset} GET /fs/* - Range and If-None-Match`);
+            results.push({ name: 'GET /fs/* - Range and If-None-Match', passed: true });
+        } else {
+            const errorMsg = `Unexpected responses: ${rangeResponse.status} ${JSON.stringify(rangeText)}, ETag ${etag}, ${cachedResponse.status}`;
+            console.log(`${colors.red}✗${colors.reset} GET /fs/* - Range and If-None-Match: ${errorMsg}`);
+            results.push({ name: 'GET /fs/* - Range and If-None-Match', passed: false, error: errorMsg });
+        }
+    } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        console.log(`${colors.red}✗${colors.reset} GET /fs/* - Range and If-None-Match: ${errorMsg}`);
+        results.push({ name: 'GET /fs/* - Range and If-None-Match', passed: false, error: errorMsg });
+    }
+
+    // PUT /fs/* - If-Match with a stale ETag is rejected instead of overwriting the file
+    try {
+        const headResponse = await fetch(`${baseUrl}/fs${testFsFile}`, { method: 'HEAD' });
+        const etag = headResponse.headers.get('etag') ?? '';
+        const firstWrite = await fetch(`${baseUrl}/fs${testFsFile}`, {
+            method: 'PUT',
+            headers: { 'If-Match': etag },
+            body: 'Conditional write',
+        });
+        const staleWrite = await fetch(`${baseUrl}/fs${testFsFile}`, {
+            method: 'PUT',
+            headers: { 'If-Match': etag },
+            body: 'Stale write',
+        });
+
+        if (etag && firstWrite.status === 200 && staleWrite.status === 412) {
+            console.log(`${colors.green}✓${colors.reset} PUT /fs/* - If-Match conflict (412)`);
+            results.push({ name: 'PUT /fs/* - If-Match conflict (412)', passed: true });
+        } else {
+            const errorMsg = `Unexpected statuses: ${firstWrite.status}, ${staleWrite.status} (ETag ${etag})`;
+            console.log(`${colors.red}✗${colors.reset} PUT /fs/* - If-Match conflict (412): ${errorMsg}`);
+            results.push({ name: 'PUT /fs/* - If-Match conflict (412)', passed: false, error: errorMsg });
+        }
+    } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        console.log(`${colors.red}✗${colors.reset} PUT /fs/* - If-Match conflict (412): ${errorMsg}`);
+        results.push({ name: 'PUT /fs/* - If-Match conflict (412)', passed: false, error: errorMsg });
+    }
+
+    // PATCH /fs/* - Search/replace edit returns the diff; an ambiguous edit is rejected without changes
+    try {
+        const editResponse = await fetch(`${baseUrl}/fs${testFsFile}`, {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ edits: [{ oldText: 'Conditional', newText: 'Patched' }] }),
+        });
+        const edit = (await editResponse.json()) as { diff?: string };
+        const ambiguousResponse = await fetch(`${baseUrl}/fs${testFsFile}`, {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ edits: [{ oldText: 'e', newText: 'E' }] }),
+        });
+        const content = await (await fetch(`${baseUrl}/fs${testFsFile}`)).text();
+
+        if (
+            editResponse.status === 200 &&
+            edit.diff?.includes('+Patched write') &&
+            ambiguousResponse.status === 409 &&
+            content === 'Patched write'
+        ) {
+            console.log(`${colors.green}✓${colors.reset} PATCH /fs/* - Search/replace edit`);
+            results.push({ name: 'PATCH /fs/* - Search/replace edit', passed: true });
+        } else {
+            const errorMsg = `Unexpected results: ${editResponse.status} ${JSON.stringify(edit)}, ${ambiguousResponse.status}, content ${JSON.stringify(content)}`;
+            console.log(`${colors.red}✗${colors.reset} PATCH /fs/* - Search/replace edit: ${errorMsg}`);
+            results.push({ name: 'PATCH /fs/* - Search/replace edit', passed: false, error: errorMsg });
+        }
+    } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        console.log(`${colors.red}✗${colors.reset} PATCH /fs/* - Search/replace edit: ${errorMsg}`);
+        results.push({ name: 'PATCH /fs/* - Search/replace edit', passed: false, error: errorMsg });
+    }
+
     // HEAD /fs/* - Get directory metadata
     await testFsEndpoint(baseUrl, 'HEAD', `/fs${testFsDir}`, null, 200, 'HEAD /fs/* - Get directory metadata');
 
@@ -819,6 +1588,40 @@ async function runAllTests(baseUrl: string): Promise<void> {
         'DELETE /fs/* - Delete file with special characters',
     );
 
+    // POST /fs/* - Copy and move files
+    await testFsEndpoint(
+        baseUrl,
+        'POST',
+        `/fs${testFsFile}?copy=test-fs-copy.txt`,
+        null,
+        201,
+        'POST /fs/* - Copy file',
+    );
+    await testFsEndpoint(
+        baseUrl,
+        'POST',
+        `/fs${testFsFile}?copy=test-fs-copy.txt`,
+        null,
+        409,
+        'POST /fs/* - Copy to existing destination without overwrite (409)',
+    );
+    await testFsEndpoint(
+        baseUrl,
+        'POST',
+        '/fs/test-fs-copy.txt?move=test-fs-moved/copy.txt',
+        null,
+        200,
+        'POST /fs/* - Move file into new directory',
+    );
+    await testFsEndpoint(
+        baseUrl,
+        'DELETE',
+        '/fs/test-fs-moved?recursive=1',
+        null,
+        200,
+        'Cleanup - Delete test-fs-moved directory',
+    );
+
     // Cleanup - Delete test files
     await testFsEndpoint(baseUrl, 'DELETE', `/fs${testFsFile}`, null, 200, 'Cleanup - Delete test-fs-file.txt');
 }
@@ -843,13 +1646,30 @@ async function main(): Promise<void> {
             nodeDependencies: {
                 zod: '^3.22.0',
             },
-            pythonRequirementsTxt: 'numpy>=1.24.0',
+            pythonRequirementsTxt: 'numpy>=1.24.0\nmatplotlib\npytest',
+            secrets: {
+                E2E_SECRET: 'e2e-secret-value',
+            },
+            commandPolicy: {
+                rules: [{ action: 'deny', command: '^\\s*shutdown\\b', reason: 'Shutting down is not allowed' }],
+            },
+            runAsSandboxUser: true,
+            egressPolicy: { mode: 'allowlist', allowlist: ['pypi.org', 'files.pythonhosted.org'] },
+            runtimes: [
+                {
+                    name: 'e2e-python',
+                    aliases: ['e2epy'],
+                    extension: '.py',
+                    command: 'python -u {file}',
+                    versionCommand: 'python --version',
+                },
+            ],
             initShellScript:
                 "#!/bin/bash\nmkdir -p /sandbox/test-e2e-init\necho 'E2E test init script executed' > /sandbox/test-e2e-init/status.txt",
         };
 
         console.log(
-            `${colors.green}✓${colors.reset} Input prepared with zod (Node.js) and numpy (Python) dependencies\n`,
+            `${colors.green}✓${colors.reset} Input prepared with zod (Node.js) and numpy, matplotlib, pytest (Python) dependencies\n`,
         );
 
         // Step 2: Deploy Actor